@@ -4,6 +4,7 @@ import { getAbiItem, http, parseAbiItem } from "viem";
 import { ServiceRegistryABI } from "./abis/ServiceRegistryABI";
 import { AgentRegistryABI } from "./abis/AgentRegistry";
 import { ComponentRegistryABI } from "./abis/ComponentRegistry";
+import { GnosisSafeABI } from "./abis/GnosisSafe";
 
 export default createConfig({
   networks: {
@@ -86,6 +87,45 @@ export default createConfig({
       address: "0x3C1fF68f5aa342D296d4DEe4Bb1cACCA912D95fE",
       startBlock: 10827380,
     },
+    MainnetServiceMultisig: {
+      network: "mainnet",
+      abi: GnosisSafeABI,
+      address: factory({
+        address: "0x48b6af7B12C71f09e2fC8aF4855De4Ff54e775cA",
+        event: getAbiItem({
+          abi: ServiceRegistryABI,
+          name: "CreateMultisigWithAgents",
+        }),
+        parameter: "multisig",
+      }),
+      startBlock: 15178299,
+    },
+    GnosisServiceMultisig: {
+      network: "gnosis",
+      abi: GnosisSafeABI,
+      address: factory({
+        address: "0x9338b5153AE39BB89f50468E608eD9d764B755fD",
+        event: getAbiItem({
+          abi: ServiceRegistryABI,
+          name: "CreateMultisigWithAgents",
+        }),
+        parameter: "multisig",
+      }),
+      startBlock: 27871084,
+    },
+    BaseServiceMultisig: {
+      network: "base",
+      abi: GnosisSafeABI,
+      address: factory({
+        address: "0x3C1fF68f5aa342D296d4DEe4Bb1cACCA912D95fE",
+        event: getAbiItem({
+          abi: ServiceRegistryABI,
+          name: "CreateMultisigWithAgents",
+        }),
+        parameter: "multisig",
+      }),
+      startBlock: 10827380,
+    },
     MainnetAgentRegistry: {
       network: "mainnet",
       abi: AgentRegistryABI,
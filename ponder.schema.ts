@@ -18,6 +18,52 @@ export const ServiceState = onchainEnum("state", [
   "TERMINATED",
 ]);
 
+export const BondType = onchainEnum("bond_type", [
+  "SECURITY_DEPOSIT",
+  "AGENT_BOND",
+]);
+
+export const RefundType = onchainEnum("refund_type", ["TERMINATION", "UNBOND"]);
+
+export const UnitType = onchainEnum("unit_type", ["agent", "component"]);
+
+export const TransferType = onchainEnum("transfer_type", [
+  "NATIVE",
+  "ERC20",
+  "ERC721",
+  "ERC1155",
+]);
+
+export const MultisigChangeType = onchainEnum("multisig_change_type", [
+  "ADDED_OWNER",
+  "REMOVED_OWNER",
+  "CHANGED_THRESHOLD",
+]);
+
+export const TransferDirection = onchainEnum("transfer_direction", [
+  "IN",
+  "OUT",
+]);
+
+export const MarketTradeType = onchainEnum("market_trade_type", [
+  "BUY",
+  "SELL",
+  "ADD_LIQUIDITY",
+  "REMOVE_LIQUIDITY",
+  "REDEEM",
+]);
+
+export const SignatureKind = onchainEnum("signature_kind", [
+  "EVENT",
+  "FUNCTION",
+]);
+
+export const TokenStandard = onchainEnum("token_standard", [
+  "ERC20",
+  "ERC721",
+  "ERC1155",
+]);
+
 // ============================================================================
 // CORE TABLES
 // ============================================================================
@@ -32,6 +78,8 @@ export const Service = onchainTable(
     maxNumAgentInstances: t.integer(),
     numAgentInstances: t.integer(),
     state: ServiceState("state"),
+    stateBlockNumber: t.integer(),
+    stateLogIndex: t.integer(),
     blockNumber: t.integer().notNull(),
     timestamp: t.integer().notNull(),
     chainId: t.integer().notNull(),
@@ -43,6 +91,7 @@ export const Service = onchainTable(
     image: t.text(),
     codeUri: t.text(),
     owner: t.text(),
+    metadataVersion: t.integer(),
   }),
   (table) => ({
     idx: index().on(table.id),
@@ -63,6 +112,7 @@ export const Agent = onchainTable(
   "agent",
   (t) => ({
     id: t.text().primaryKey(),
+    chain: t.text(),
     name: t.text(),
     description: t.text(),
     image: t.text(),
@@ -73,9 +123,11 @@ export const Agent = onchainTable(
     metadataURI: t.text(),
     packageHash: t.text(),
     operator: t.text(),
+    metadataVersion: t.integer(),
   }),
   (table) => ({
     idx: index().on(table.id),
+    chainIdx: index().on(table.chain),
     packageHashIdx: index().on(table.packageHash),
     metadataHashIdx: index().on(table.metadataHash),
     timestampIdx: index().on(table.timestamp),
@@ -92,12 +144,16 @@ export const AgentInstance = onchainTable(
   "agent_instance",
   (t) => ({
     id: t.text().primaryKey(),
+    chain: t.text().notNull(),
+    address: t.text().notNull(),
     agentId: t.text().notNull(),
     blockNumber: t.integer().notNull(),
     timestamp: t.integer().notNull(),
   }),
   (table) => ({
     idx: index().on(table.id),
+    chainIdx: index().on(table.chain),
+    addressIdx: index().on(table.address),
     agentIdIdx: index().on(table.agentId),
     timestampIdx: index().on(table.timestamp),
     blockNumberIdx: index().on(table.blockNumber),
@@ -118,6 +174,8 @@ export const Component = onchainTable(
     description: t.text(),
     image: t.text(),
     codeUri: t.text(),
+    operator: t.text(),
+    metadataVersion: t.integer(),
   }),
   (table) => ({
     idx: index().on(table.id),
@@ -130,17 +188,60 @@ export const Component = onchainTable(
     descriptionIdx: index().on(table.description),
     imageIdx: index().on(table.image),
     codeUriIdx: index().on(table.codeUri),
+    operatorIdx: index().on(table.operator),
+  })
+);
+
+export const UnitMetadataVersion = onchainTable(
+  "unit_metadata_version",
+  (t) => ({
+    id: t.text().primaryKey(),
+    unitId: t.text().notNull(),
+    unitType: UnitType("unit_type").notNull(),
+    version: t.integer().notNull(),
+    unitHash: t.text().notNull(),
+    name: t.text(),
+    description: t.text(),
+    image: t.text(),
+    codeUri: t.text(),
+    packageHash: t.text(),
+    metadataURI: t.text(),
+    transactionHash: t.text().notNull(),
+    blockNumber: t.integer().notNull(),
+    timestamp: t.integer().notNull(),
+    supersededAtBlock: t.integer(),
+  }),
+  (table) => ({
+    unitIdx: index().on(table.unitId),
+    unitTypeIdx: index().on(table.unitType),
+    unitHashIdx: index().on(table.unitHash),
+    packageHashIdx: index().on(table.packageHash),
+    blockNumberIdx: index().on(table.blockNumber),
   })
 );
 
 // ============================================================================
 // RELATIONSHIP TABLES
 // ============================================================================
-export const ServiceAgent = onchainTable("service_agent", (t) => ({
-  id: t.text().primaryKey(),
-  serviceId: t.text().notNull(),
-  agentInstanceId: t.text().notNull(),
-}));
+export const ServiceAgent = onchainTable(
+  "service_agent",
+  (t) => ({
+    id: t.text().primaryKey(),
+    serviceId: t.text().notNull(),
+    agentInstanceId: t.text().notNull(),
+    operator: t.text(),
+    registeredAtBlock: t.integer(),
+    registeredAtTimestamp: t.integer(),
+    unbondedAtBlock: t.integer(),
+    terminatedAtBlock: t.integer(),
+  }),
+  (table) => ({
+    serviceIdx: index().on(table.serviceId),
+    agentInstanceIdx: index().on(table.agentInstanceId),
+    operatorIdx: index().on(table.operator),
+    registeredAtBlockIdx: index().on(table.registeredAtBlock),
+  })
+);
 
 export const ComponentAgent = onchainTable("component_agent", (t) => ({
   id: t.text().primaryKey(),
@@ -162,6 +263,346 @@ export const ComponentDependency = onchainTable(
   })
 );
 
+export const ServiceStateTransition = onchainTable(
+  "service_state_transition",
+  (t) => ({
+    id: t.text().primaryKey(),
+    serviceId: t.text().notNull(),
+    chain: t.text().notNull(),
+    fromState: ServiceState("from_state"),
+    toState: ServiceState("to_state").notNull(),
+    isValid: t.boolean().notNull(),
+    invalidReason: t.text(),
+    eventName: t.text().notNull(),
+    transactionHash: t.text().notNull(),
+    blockNumber: t.integer().notNull(),
+    timestamp: t.integer().notNull(),
+  }),
+  (table) => ({
+    serviceIdx: index().on(table.serviceId),
+    chainIdx: index().on(table.chain),
+    isValidIdx: index().on(table.isValid),
+    timestampIdx: index().on(table.timestamp),
+    blockNumberIdx: index().on(table.blockNumber),
+  })
+);
+
+export const ServiceMetadataVersion = onchainTable(
+  "service_metadata_version",
+  (t) => ({
+    id: t.text().primaryKey(),
+    serviceId: t.text().notNull(),
+    chain: t.text().notNull(),
+    version: t.integer().notNull(),
+    configHash: t.text().notNull(),
+    name: t.text(),
+    description: t.text(),
+    image: t.text(),
+    codeUri: t.text(),
+    packageHash: t.text(),
+    metadataURI: t.text(),
+    transactionHash: t.text().notNull(),
+    blockNumber: t.integer().notNull(),
+    timestamp: t.integer().notNull(),
+    supersededAtBlock: t.integer(),
+  }),
+  (table) => ({
+    serviceIdx: index().on(table.serviceId),
+    chainIdx: index().on(table.chain),
+    configHashIdx: index().on(table.configHash),
+    packageHashIdx: index().on(table.packageHash),
+    blockNumberIdx: index().on(table.blockNumber),
+  })
+);
+
+// ============================================================================
+// SERVICE BOND TABLES
+// ============================================================================
+export const ServiceBond = onchainTable(
+  "service_bond",
+  (t) => ({
+    id: t.text().primaryKey(),
+    serviceId: t.text(),
+    chain: t.text().notNull(),
+    sender: t.text().notNull(),
+    amount: t.bigint().notNull(),
+    bondType: BondType("bond_type"),
+    transactionHash: t.text().notNull(),
+    blockNumber: t.integer().notNull(),
+    timestamp: t.integer().notNull(),
+  }),
+  (table) => ({
+    serviceIdx: index().on(table.serviceId),
+    chainIdx: index().on(table.chain),
+    senderIdx: index().on(table.sender),
+    txHashIdx: index().on(table.transactionHash),
+    timestampIdx: index().on(table.timestamp),
+    blockNumberIdx: index().on(table.blockNumber),
+  })
+);
+
+export const ServiceSlash = onchainTable(
+  "service_slash",
+  (t) => ({
+    id: t.text().primaryKey(),
+    serviceId: t.text().notNull(),
+    chain: t.text().notNull(),
+    operator: t.text().notNull(),
+    amount: t.bigint().notNull(),
+    transactionHash: t.text().notNull(),
+    blockNumber: t.integer().notNull(),
+    timestamp: t.integer().notNull(),
+  }),
+  (table) => ({
+    serviceIdx: index().on(table.serviceId),
+    chainIdx: index().on(table.chain),
+    operatorIdx: index().on(table.operator),
+    txHashIdx: index().on(table.transactionHash),
+    timestampIdx: index().on(table.timestamp),
+    blockNumberIdx: index().on(table.blockNumber),
+  })
+);
+
+export const ServiceRefund = onchainTable(
+  "service_refund",
+  (t) => ({
+    id: t.text().primaryKey(),
+    serviceId: t.text(),
+    chain: t.text().notNull(),
+    receiver: t.text().notNull(),
+    amount: t.bigint().notNull(),
+    refundType: RefundType("refund_type"),
+    transactionHash: t.text().notNull(),
+    blockNumber: t.integer().notNull(),
+    timestamp: t.integer().notNull(),
+  }),
+  (table) => ({
+    serviceIdx: index().on(table.serviceId),
+    chainIdx: index().on(table.chain),
+    receiverIdx: index().on(table.receiver),
+    txHashIdx: index().on(table.transactionHash),
+    timestampIdx: index().on(table.timestamp),
+    blockNumberIdx: index().on(table.blockNumber),
+  })
+);
+
+export const Registry = onchainTable("registry", (t) => ({
+  id: t.text().primaryKey(),
+  chain: t.text().notNull(),
+  address: t.text().notNull(),
+  manager: t.text(),
+  drainedAmount: t.bigint().notNull(),
+  blockNumber: t.integer().notNull(),
+  timestamp: t.integer().notNull(),
+}));
+
+export const RegistryDrain = onchainTable(
+  "registry_drain",
+  (t) => ({
+    id: t.text().primaryKey(),
+    chain: t.text().notNull(),
+    drainer: t.text().notNull(),
+    amount: t.bigint().notNull(),
+    transactionHash: t.text().notNull(),
+    blockNumber: t.integer().notNull(),
+    timestamp: t.integer().notNull(),
+  }),
+  (table) => ({
+    chainIdx: index().on(table.chain),
+    drainerIdx: index().on(table.drainer),
+    timestampIdx: index().on(table.timestamp),
+  })
+);
+
+// ============================================================================
+// SERVICE MULTISIG TABLES
+// ============================================================================
+export const Multisig = onchainTable(
+  "multisig",
+  (t) => ({
+    id: t.text().primaryKey(),
+    chain: t.text().notNull(),
+    address: t.text().notNull(),
+    serviceId: t.text(),
+    owners: t.text().array(),
+    threshold: t.integer(),
+    // Last block scanned for token transfers into the multisig
+    incomingTransfersBlock: t.integer(),
+    blockNumber: t.integer().notNull(),
+    timestamp: t.integer().notNull(),
+  }),
+  (table) => ({
+    chainIdx: index().on(table.chain),
+    addressIdx: index().on(table.address),
+    serviceIdx: index().on(table.serviceId),
+  })
+);
+
+export const MultisigConfigChange = onchainTable(
+  "multisig_config_change",
+  (t) => ({
+    id: t.text().primaryKey(),
+    multisigId: t.text().notNull(),
+    serviceId: t.text(),
+    changeType: MultisigChangeType("change_type").notNull(),
+    owner: t.text(),
+    threshold: t.integer(),
+    transactionHash: t.text().notNull(),
+    blockNumber: t.integer().notNull(),
+    timestamp: t.integer().notNull(),
+  }),
+  (table) => ({
+    multisigIdx: index().on(table.multisigId),
+    serviceIdx: index().on(table.serviceId),
+    blockNumberIdx: index().on(table.blockNumber),
+  })
+);
+
+export const MultisigExecution = onchainTable(
+  "multisig_execution",
+  (t) => ({
+    id: t.text().primaryKey(),
+    multisigId: t.text().notNull(),
+    serviceId: t.text(),
+    chain: t.text().notNull(),
+    safeTxHash: t.text().notNull(),
+    success: t.boolean().notNull(),
+    payment: t.bigint().notNull(),
+    executor: t.text().notNull(),
+    to: t.text(),
+    value: t.bigint(),
+    operation: t.integer(),
+    data: t.text(),
+    transactionHash: t.text().notNull(),
+    blockNumber: t.integer().notNull(),
+    timestamp: t.integer().notNull(),
+  }),
+  (table) => ({
+    multisigIdx: index().on(table.multisigId),
+    serviceIdx: index().on(table.serviceId),
+    chainIdx: index().on(table.chain),
+    executorIdx: index().on(table.executor),
+    txHashIdx: index().on(table.transactionHash),
+    timestampIdx: index().on(table.timestamp),
+  })
+);
+
+export const MultisigTransfer = onchainTable(
+  "multisig_transfer",
+  (t) => ({
+    id: t.text().primaryKey(),
+    multisigId: t.text().notNull(),
+    serviceId: t.text(),
+    chain: t.text().notNull(),
+    direction: TransferDirection("direction").notNull(),
+    type: TransferType("type").notNull(),
+    token: t.text(),
+    tokenId: t.bigint(),
+    counterparty: t.text().notNull(),
+    amount: t.bigint().notNull(),
+    formattedAmount: t.text(),
+    transactionHash: t.text().notNull(),
+    logIndex: t.integer(),
+    blockNumber: t.integer().notNull(),
+    timestamp: t.integer().notNull(),
+  }),
+  (table) => ({
+    multisigIdx: index().on(table.multisigId),
+    serviceIdx: index().on(table.serviceId),
+    chainIdx: index().on(table.chain),
+    tokenIdx: index().on(table.token),
+    counterpartyIdx: index().on(table.counterparty),
+    timestampIdx: index().on(table.timestamp),
+  })
+);
+
+// ============================================================================
+// PREDICTION MARKET TABLES
+// ============================================================================
+export const MarketTrade = onchainTable(
+  "market_trade",
+  (t) => ({
+    id: t.text().primaryKey(),
+    chain: t.text().notNull(),
+    agentInstanceId: t.text().notNull(),
+    trader: t.text().notNull(),
+    type: MarketTradeType("type").notNull(),
+    market: t.text(),
+    conditionId: t.text(),
+    collateralToken: t.text(),
+    outcomeIndex: t.integer(),
+    collateralAmount: t.bigint().notNull(),
+    feeAmount: t.bigint(),
+    outcomeTokenAmount: t.bigint(),
+    outcomeAmounts: t.text().array(),
+    shares: t.bigint(),
+    transactionHash: t.text().notNull(),
+    logIndex: t.integer().notNull(),
+    blockNumber: t.integer().notNull(),
+    timestamp: t.integer().notNull(),
+  }),
+  (table) => ({
+    agentInstanceIdx: index().on(table.agentInstanceId),
+    traderIdx: index().on(table.trader),
+    marketIdx: index().on(table.market),
+    conditionIdx: index().on(table.conditionId),
+    typeIdx: index().on(table.type),
+    chainIdx: index().on(table.chain),
+    timestampIdx: index().on(table.timestamp),
+  })
+);
+
+// ============================================================================
+// MECH TABLES
+// ============================================================================
+export const MechRequest = onchainTable(
+  "mech_request",
+  (t) => ({
+    id: t.text().primaryKey(),
+    chain: t.text().notNull(),
+    mech: t.text().notNull(),
+    requestId: t.bigint().notNull(),
+    requester: t.text().notNull(),
+    agentInstanceId: t.text().notNull(),
+    promptHash: t.text(),
+    deliveryId: t.text(),
+    latency: t.integer(),
+    transactionHash: t.text().notNull(),
+    blockNumber: t.integer().notNull(),
+    timestamp: t.integer().notNull(),
+  }),
+  (table) => ({
+    chainIdx: index().on(table.chain),
+    mechIdx: index().on(table.mech),
+    requesterIdx: index().on(table.requester),
+    agentInstanceIdx: index().on(table.agentInstanceId),
+    timestampIdx: index().on(table.timestamp),
+  })
+);
+
+export const MechDelivery = onchainTable(
+  "mech_delivery",
+  (t) => ({
+    id: t.text().primaryKey(),
+    chain: t.text().notNull(),
+    mech: t.text().notNull(),
+    requestId: t.bigint().notNull(),
+    deliverer: t.text().notNull(),
+    agentInstanceId: t.text().notNull(),
+    resultHash: t.text(),
+    latency: t.integer(),
+    transactionHash: t.text().notNull(),
+    blockNumber: t.integer().notNull(),
+    timestamp: t.integer().notNull(),
+  }),
+  (table) => ({
+    chainIdx: index().on(table.chain),
+    mechIdx: index().on(table.mech),
+    agentInstanceIdx: index().on(table.agentInstanceId),
+    timestampIdx: index().on(table.timestamp),
+  })
+);
+
 // ============================================================================
 // TRANSACTION RELATED TABLES
 // ============================================================================
@@ -178,9 +619,18 @@ export const Transaction = onchainTable(
     input: t.text(),
     isMultisend: t.boolean().default(false),
     decodedFunction: t.text(),
+    status: t.text(),
+    gasUsed: t.bigint(),
+    effectiveGasPrice: t.bigint(),
+    nonce: t.integer(),
+    type: t.text(),
+    contractAddress: t.text(),
+    revertReason: t.text(),
+    revertData: t.text(),
   }),
   (table) => ({
     pk: primaryKey({ columns: [table.hash, table.chain] }),
+    statusIdx: index().on(table.status),
     hashIdx: index().on(table.hash),
     chainIdx: index().on(table.chain),
     fromIdx: index().on(table.from),
@@ -196,15 +646,22 @@ export const Transfer = onchainTable(
     id: t.text().primaryKey(),
     chain: t.text().notNull(),
     hash: t.text().notNull(),
+    logIndex: t.integer(),
+    type: TransferType("type").notNull(),
+    token: t.text(),
+    tokenId: t.bigint(),
     from: t.text().notNull(),
     to: t.text().notNull(),
-    value: t.text().notNull(),
+    amount: t.bigint().notNull(),
+    formattedAmount: t.text(),
     blockNumber: t.integer().notNull(),
     timestamp: t.integer().notNull(),
   }),
   (table) => ({
     hashIdx: index().on(table.hash),
     chainIdx: index().on(table.chain),
+    typeIdx: index().on(table.type),
+    tokenIdx: index().on(table.token),
     fromIdx: index().on(table.from),
     toIdx: index().on(table.to),
     timestampIdx: index().on(table.timestamp),
@@ -212,6 +669,25 @@ export const Transfer = onchainTable(
   })
 );
 
+export const Token = onchainTable(
+  "token",
+  (t) => ({
+    address: t.text().notNull(),
+    chain: t.text().notNull(),
+    standard: TokenStandard("standard").notNull(),
+    name: t.text(),
+    symbol: t.text(),
+    decimals: t.integer(),
+    source: t.text().notNull(),
+    blockNumber: t.integer().notNull(),
+  }),
+  (table) => ({
+    pk: primaryKey({ columns: [table.address, table.chain] }),
+    chainIdx: index().on(table.chain),
+    symbolIdx: index().on(table.symbol),
+  })
+);
+
 export const Log = onchainTable(
   "log",
   (t) => ({
@@ -226,6 +702,8 @@ export const Log = onchainTable(
     timestamp: t.integer().notNull(),
     eventName: t.text(),
     decodedData: t.text(),
+    decodeSource: t.text(),
+    decodeConfidence: t.real(),
   }),
   (table) => ({
     pk: primaryKey({ columns: [table.id, table.chain] }),
@@ -238,6 +716,58 @@ export const Log = onchainTable(
   })
 );
 
+export const UndecodedSignature = onchainTable(
+  "undecoded_signature",
+  (t) => ({
+    id: t.text().primaryKey(),
+    chain: t.text().notNull(),
+    address: t.text().notNull(),
+    kind: SignatureKind("kind").notNull(),
+    signature: t.text().notNull(),
+    occurrences: t.integer().notNull(),
+    firstSeenBlock: t.integer().notNull(),
+    firstSeenAt: t.integer().notNull(),
+    lastSeenBlock: t.integer().notNull(),
+    lastSeenAt: t.integer().notNull(),
+  }),
+  (table) => ({
+    chainIdx: index().on(table.chain),
+    addressIdx: index().on(table.address),
+    signatureIdx: index().on(table.signature),
+    occurrencesIdx: index().on(table.occurrences),
+  })
+);
+
+export const InnerCall = onchainTable(
+  "inner_call",
+  (t) => ({
+    id: t.text().primaryKey(),
+    chain: t.text().notNull(),
+    transactionHash: t.text().notNull(),
+    parentId: t.text(),
+    path: t.text().notNull(),
+    depth: t.integer().notNull(),
+    from: t.text().notNull(),
+    to: t.text().notNull(),
+    value: t.bigint().notNull(),
+    operation: t.integer().notNull(),
+    data: t.text(),
+    functionName: t.text(),
+    decodedFunction: t.text(),
+    blockNumber: t.integer().notNull(),
+    timestamp: t.integer().notNull(),
+  }),
+  (table) => ({
+    txHashIdx: index().on(table.transactionHash),
+    chainIdx: index().on(table.chain),
+    parentIdx: index().on(table.parentId),
+    fromIdx: index().on(table.from),
+    toIdx: index().on(table.to),
+    functionNameIdx: index().on(table.functionName),
+    blockNumberIdx: index().on(table.blockNumber),
+  })
+);
+
 export const AgentTransaction = onchainTable(
   "agent_transaction",
   (t) => ({
@@ -302,8 +832,105 @@ export const AgentFromTransaction = onchainTable(
 // Service Relations
 export const ServiceRelations = relations(Service, ({ many }) => ({
   serviceAgents: many(ServiceAgent),
+  stateTransitions: many(ServiceStateTransition),
+  metadataVersions: many(ServiceMetadataVersion),
+  bonds: many(ServiceBond),
+  slashes: many(ServiceSlash),
+  refunds: many(ServiceRefund),
+  multisigs: many(Multisig),
+  multisigExecutions: many(MultisigExecution),
+  multisigTransfers: many(MultisigTransfer),
+}));
+
+export const ServiceStateTransitionRelations = relations(
+  ServiceStateTransition,
+  ({ one }) => ({
+    service: one(Service, {
+      fields: [ServiceStateTransition.serviceId],
+      references: [Service.id],
+    }),
+  })
+);
+
+export const ServiceMetadataVersionRelations = relations(
+  ServiceMetadataVersion,
+  ({ one }) => ({
+    service: one(Service, {
+      fields: [ServiceMetadataVersion.serviceId],
+      references: [Service.id],
+    }),
+  })
+);
+
+export const ServiceBondRelations = relations(ServiceBond, ({ one }) => ({
+  service: one(Service, {
+    fields: [ServiceBond.serviceId],
+    references: [Service.id],
+  }),
+}));
+
+export const ServiceSlashRelations = relations(ServiceSlash, ({ one }) => ({
+  service: one(Service, {
+    fields: [ServiceSlash.serviceId],
+    references: [Service.id],
+  }),
+}));
+
+export const ServiceRefundRelations = relations(ServiceRefund, ({ one }) => ({
+  service: one(Service, {
+    fields: [ServiceRefund.serviceId],
+    references: [Service.id],
+  }),
+}));
+
+export const MultisigRelations = relations(Multisig, ({ one, many }) => ({
+  service: one(Service, {
+    fields: [Multisig.serviceId],
+    references: [Service.id],
+  }),
+  configChanges: many(MultisigConfigChange),
+  executions: many(MultisigExecution),
+  transfers: many(MultisigTransfer),
 }));
 
+export const MultisigConfigChangeRelations = relations(
+  MultisigConfigChange,
+  ({ one }) => ({
+    multisig: one(Multisig, {
+      fields: [MultisigConfigChange.multisigId],
+      references: [Multisig.id],
+    }),
+  })
+);
+
+export const MultisigExecutionRelations = relations(
+  MultisigExecution,
+  ({ one }) => ({
+    multisig: one(Multisig, {
+      fields: [MultisigExecution.multisigId],
+      references: [Multisig.id],
+    }),
+    service: one(Service, {
+      fields: [MultisigExecution.serviceId],
+      references: [Service.id],
+    }),
+  })
+);
+
+export const MultisigTransferRelations = relations(
+  MultisigTransfer,
+  ({ one }) => ({
+    multisig: one(Multisig, {
+      fields: [MultisigTransfer.multisigId],
+      references: [Multisig.id],
+    }),
+    service: one(Service, {
+      fields: [MultisigTransfer.serviceId],
+      references: [Service.id],
+    }),
+  })
+);
+
 export const ServiceAgentRelations = relations(ServiceAgent, ({ one }) => ({
   service: one(Service, {
     fields: [ServiceAgent.serviceId],
@@ -351,6 +978,18 @@ export const ComponentAgentRelations = relations(ComponentAgent, ({ one }) => ({
 export const TransactionRelations = relations(Transaction, ({ many }) => ({
   logs: many(Log),
   transfers: many(Transfer),
+  innerCalls: many(InnerCall),
+}));
+
+export const InnerCallRelations = relations(InnerCall, ({ one }) => ({
+  transaction: one(Transaction, {
+    fields: [InnerCall.transactionHash, InnerCall.chain],
+    references: [Transaction.hash, Transaction.chain],
+  }),
+  parent: one(InnerCall, {
+    fields: [InnerCall.parentId],
+    references: [InnerCall.id],
+  }),
 }));
 
 export const AgentTransactionRelations = relations(
@@ -407,6 +1046,51 @@ export const TransferRelations = relations(Transfer, ({ one }) => ({
     fields: [Transfer.hash],
     references: [Transaction.hash],
   }),
+  tokenMetadata: one(Token, {
+    fields: [Transfer.token, Transfer.chain],
+    references: [Token.address, Token.chain],
+  }),
+}));
+
+export const MarketTradeRelations = relations(MarketTrade, ({ one }) => ({
+  agentInstance: one(AgentInstance, {
+    fields: [MarketTrade.agentInstanceId],
+    references: [AgentInstance.id],
+  }),
+  transaction: one(Transaction, {
+    fields: [MarketTrade.transactionHash, MarketTrade.chain],
+    references: [Transaction.hash, Transaction.chain],
+  }),
+  collateral: one(Token, {
+    fields: [MarketTrade.collateralToken, MarketTrade.chain],
+    references: [Token.address, Token.chain],
+  }),
+}));
+
+export const MechRequestRelations = relations(MechRequest, ({ one }) => ({
+  agentInstance: one(AgentInstance, {
+    fields: [MechRequest.agentInstanceId],
+    references: [AgentInstance.id],
+  }),
+  delivery: one(MechDelivery, {
+    fields: [MechRequest.deliveryId],
+    references: [MechDelivery.id],
+  }),
+}));
+
+export const MechDeliveryRelations = relations(MechDelivery, ({ one }) => ({
+  agentInstance: one(AgentInstance, {
+    fields: [MechDelivery.agentInstanceId],
+    references: [AgentInstance.id],
+  }),
+  request: one(MechRequest, {
+    fields: [MechDelivery.id],
+    references: [MechRequest.id],
+  }),
+}));
+
+export const TokenRelations = relations(Token, ({ many }) => ({
+  transfers: many(Transfer),
 }));
 
 // Add these relations
@@ -2,8 +2,9 @@
  * Database Setup Script
  *
  * This script initializes the PostgreSQL database with the required tables and extensions
- * for the AgentScan indexer. It creates the context_embeddings table with vector support
- * for storing embeddings and related metadata.
+ * for the AgentScan indexer. It creates the contract_abi, proxy_implementation and selector
+ * tables for decoding, and the context_embeddings table with vector support for storing
+ * embeddings and related metadata.
  *
  * Prerequisites:
  * 1. PostgreSQL database with vector extension support
@@ -24,8 +25,9 @@
  *
  * The script will:
  * 1. Create the vector extension if not exists
- * 2. Create the context_embeddings table with 512-dimension vector support
- * 3. Set up necessary indexes for efficient querying
+ * 2. Create the contract_abi, proxy_implementation and selector tables
+ * 3. Create the context_embeddings table with 512-dimension vector support
+ * 4. Set up necessary indexes for efficient querying
  */
 
 import { getPool, recreateDatabase } from "../utils/postgres.js";
@@ -35,6 +37,46 @@ dotenv.config();
 dotenv.config({ path: ".env.local" });
 
 async function createTables() {
+  const createContractAbiTable = `
+    CREATE TABLE IF NOT EXISTS contract_abi (
+      address TEXT NOT NULL,
+      chain TEXT NOT NULL,
+      abi JSONB NOT NULL,
+      source TEXT,
+      is_proxy BOOLEAN NOT NULL DEFAULT FALSE,
+      implementation_address TEXT,
+      merged_with TEXT[],
+      selector_collisions JSONB,
+      fetched_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (address, chain)
+    );
+  `;
+
+  const createProxyImplementationTable = `
+    CREATE TABLE IF NOT EXISTS proxy_implementation (
+      address TEXT NOT NULL,
+      chain TEXT NOT NULL,
+      block_number BIGINT NOT NULL,
+      implementation_address TEXT NOT NULL,
+      source TEXT NOT NULL,
+      transaction_hash TEXT,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (address, chain, block_number)
+    );
+  `;
+
+  const createSelectorTable = `
+    CREATE TABLE IF NOT EXISTS selector (
+      selector TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      signature TEXT NOT NULL,
+      name TEXT NOT NULL,
+      abi_item JSONB NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (kind, selector, signature)
+    );
+  `;
+
   const createContextEmbeddingsTable = `
     CREATE TABLE IF NOT EXISTS context_embeddings (
       id TEXT,
@@ -57,12 +99,17 @@ async function createTables() {
     CREATE INDEX IF NOT EXISTS idx_context_embeddings_company_id ON context_embeddings(company_id);
     CREATE INDEX IF NOT EXISTS idx_context_embeddings_type ON context_embeddings(type);
     CREATE INDEX IF NOT EXISTS idx_context_embeddings_location ON context_embeddings(location);
+    CREATE INDEX IF NOT EXISTS idx_contract_abi_implementation ON contract_abi(implementation_address);
+    CREATE INDEX IF NOT EXISTS idx_selector_selector ON selector(selector);
   `;
 
   try {
     const pool = getPool();
     const client = await pool.connect();
     await client.query(`CREATE EXTENSION IF NOT EXISTS vector;`);
+    await client.query(createContractAbiTable);
+    await client.query(createProxyImplementationTable);
+    await client.query(createSelectorTable);
     await client.query(createContextEmbeddingsTable);
     await client.query(createIndexes);
     client.release();
@@ -0,0 +1,481 @@
+import { db } from "ponder:api";
+import schema from "ponder:schema";
+import { Hono } from "hono";
+import {
+  and,
+  avg,
+  count,
+  desc,
+  eq,
+  gte,
+  inArray,
+  lte,
+  max,
+  min,
+  or,
+  sql,
+} from "ponder";
+
+import {
+  BadRequestError,
+  getPagination,
+  getTimeRange,
+  Json,
+  NotFoundError,
+  paginate,
+  Pagination,
+  roundAverage,
+  TimeRange,
+  toJson,
+} from "./utils";
+
+type Agent = typeof schema.Agent.$inferSelect;
+type AgentInstance = typeof schema.AgentInstance.$inferSelect;
+type Transaction = typeof schema.Transaction.$inferSelect;
+type TransferType = (typeof schema.TransferType.enumValues)[number];
+type MarketTradeType = (typeof schema.MarketTradeType.enumValues)[number];
+
+export type AgentResponse = Json<Agent>;
+
+export type AgentDetailResponse = AgentResponse & {
+  instances: Json<AgentInstance>[];
+};
+
+export type AgentInstanceTransaction = Json<Transaction> & {
+  agentInstanceId: string;
+  direction: "from" | "to";
+};
+
+export interface MarketPosition {
+  chain: string;
+  conditionId: string | null;
+  market: string | null;
+  collateralToken: string | null;
+  symbol: string | null;
+  decimals: number | null;
+  trades: number;
+  invested: string;
+  fees: string;
+  sold: string;
+  redeemed: string;
+  liquidityAdded: string;
+  liquidityRemoved: string;
+  pnl: string;
+  firstTradeAt: number;
+  lastTradeAt: number;
+}
+
+const DIRECTIONS = ["from", "to"] as const;
+type Direction = (typeof DIRECTIONS)[number];
+
+const agents = new Hono();
+
+agents.get("/", async (c) => {
+  const pagination = getPagination(c);
+  const { from, to } = getTimeRange(c);
+  const chain = c.req.query("chain");
+
+  const filters = [
+    chain ? eq(schema.Agent.chain, chain) : undefined,
+    from !== undefined ? gte(schema.Agent.timestamp, from) : undefined,
+    to !== undefined ? lte(schema.Agent.timestamp, to) : undefined,
+  ];
+
+  const rows = await db
+    .select()
+    .from(schema.Agent)
+    .where(and(...filters))
+    .orderBy(desc(schema.Agent.timestamp))
+    .limit(pagination.limit + 1)
+    .offset(pagination.offset);
+
+  return c.json(paginate(rows, pagination));
+});
+
+agents.get("/:id", async (c) => {
+  const agentId = c.req.param("id");
+
+  const [agent] = await db
+    .select()
+    .from(schema.Agent)
+    .where(eq(schema.Agent.id, agentId))
+    .limit(1);
+
+  if (!agent) {
+    throw new NotFoundError(`Agent ${agentId} not found`);
+  }
+
+  const instances = await db
+    .select()
+    .from(schema.AgentInstance)
+    .where(eq(schema.AgentInstance.agentId, agentId))
+    .orderBy(desc(schema.AgentInstance.timestamp));
+
+  const response: AgentDetailResponse = {
+    ...toJson(agent),
+    instances: toJson(instances),
+  };
+
+  return c.json(response);
+});
+
+// The same address may be registered as an instance on several chains
+const findAgentInstanceIds = async (address: string, chain?: string) => {
+  const instances = await db
+    .select({ id: schema.AgentInstance.id })
+    .from(schema.AgentInstance)
+    .where(
+      and(
+        eq(schema.AgentInstance.address, address),
+        chain ? eq(schema.AgentInstance.chain, chain) : undefined
+      )
+    );
+
+  return instances.map((instance) => instance.id);
+};
+
+const findAgentInstanceTransactions = async (
+  direction: Direction,
+  agentInstanceIds: string[],
+  { from, to }: TimeRange,
+  pagination: Pagination
+) => {
+  const link =
+    direction === "from"
+      ? schema.AgentFromTransaction
+      : schema.AgentToTransaction;
+
+  // Each side is capped at the end of the requested page so the merge below
+  // never needs more rows than that from either table
+  const rows = await db
+    .select({
+      agentInstanceId: link.agentInstanceId,
+      transaction: schema.Transaction,
+    })
+    .from(link)
+    .innerJoin(
+      schema.Transaction,
+      and(
+        eq(link.transactionHash, schema.Transaction.hash),
+        eq(link.chain, schema.Transaction.chain)
+      )
+    )
+    .where(
+      and(
+        inArray(link.agentInstanceId, agentInstanceIds),
+        from !== undefined ? gte(link.timestamp, from) : undefined,
+        to !== undefined ? lte(link.timestamp, to) : undefined
+      )
+    )
+    .orderBy(desc(link.timestamp))
+    .limit(pagination.offset + pagination.limit + 1);
+
+  return rows.map(({ agentInstanceId, transaction }) => ({
+    ...transaction,
+    agentInstanceId,
+    direction,
+  }));
+};
+
+export const agentInstances = new Hono();
+
+agentInstances.get("/:address/transactions", async (c) => {
+  const address = c.req.param("address").toLowerCase();
+  const chain = c.req.query("chain");
+  const direction = c.req.query("direction");
+  const pagination = getPagination(c);
+  const timeRange = getTimeRange(c);
+
+  if (
+    direction !== undefined &&
+    !(DIRECTIONS as readonly string[]).includes(direction)
+  ) {
+    throw new BadRequestError(
+      `direction must be one of ${DIRECTIONS.join(", ")}`
+    );
+  }
+
+  const agentInstanceIds = await findAgentInstanceIds(address, chain);
+  if (agentInstanceIds.length === 0) {
+    throw new NotFoundError(`Agent instance ${address} not found`);
+  }
+
+  const directions = direction ? [direction as Direction] : DIRECTIONS;
+
+  const results = await Promise.all(
+    directions.map((d) =>
+      findAgentInstanceTransactions(d, agentInstanceIds, timeRange, pagination)
+    )
+  );
+
+  const rows = results
+    .flat()
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(pagination.offset);
+
+  return c.json(paginate(rows, pagination));
+});
+
+agentInstances.get("/:address/transfers", async (c) => {
+  const address = c.req.param("address").toLowerCase();
+  const chain = c.req.query("chain");
+  const type = c.req.query("type")?.toUpperCase();
+  const token = c.req.query("token")?.toLowerCase();
+  const pagination = getPagination(c);
+  const { from, to } = getTimeRange(c);
+
+  if (
+    type !== undefined &&
+    !(schema.TransferType.enumValues as readonly string[]).includes(type)
+  ) {
+    throw new BadRequestError(
+      `type must be one of ${schema.TransferType.enumValues.join(", ")}`
+    );
+  }
+
+  const rows = await db
+    .select({
+      transfer: schema.Transfer,
+      symbol: schema.Token.symbol,
+      decimals: schema.Token.decimals,
+    })
+    .from(schema.Transfer)
+    .leftJoin(
+      schema.Token,
+      and(
+        eq(schema.Transfer.token, schema.Token.address),
+        eq(schema.Transfer.chain, schema.Token.chain)
+      )
+    )
+    .where(
+      and(
+        or(eq(schema.Transfer.from, address), eq(schema.Transfer.to, address)),
+        chain ? eq(schema.Transfer.chain, chain) : undefined,
+        type ? eq(schema.Transfer.type, type as TransferType) : undefined,
+        token ? eq(schema.Transfer.token, token) : undefined,
+        from !== undefined ? gte(schema.Transfer.timestamp, from) : undefined,
+        to !== undefined ? lte(schema.Transfer.timestamp, to) : undefined
+      )
+    )
+    .orderBy(desc(schema.Transfer.timestamp))
+    .limit(pagination.limit + 1)
+    .offset(pagination.offset);
+
+  return c.json(
+    paginate(
+      rows.map(({ transfer, symbol, decimals }) => ({
+        ...transfer,
+        symbol,
+        decimals,
+      })),
+      pagination
+    )
+  );
+});
+
+agentInstances.get("/:address/trades", async (c) => {
+  const address = c.req.param("address").toLowerCase();
+  const chain = c.req.query("chain");
+  const type = c.req.query("type")?.toUpperCase();
+  const market = c.req.query("market")?.toLowerCase();
+  const pagination = getPagination(c);
+  const { from, to } = getTimeRange(c);
+
+  if (
+    type !== undefined &&
+    !(schema.MarketTradeType.enumValues as readonly string[]).includes(type)
+  ) {
+    throw new BadRequestError(
+      `type must be one of ${schema.MarketTradeType.enumValues.join(", ")}`
+    );
+  }
+
+  const agentInstanceIds = await findAgentInstanceIds(address, chain);
+  if (agentInstanceIds.length === 0) {
+    throw new NotFoundError(`Agent instance ${address} not found`);
+  }
+
+  const rows = await db
+    .select()
+    .from(schema.MarketTrade)
+    .where(
+      and(
+        inArray(schema.MarketTrade.agentInstanceId, agentInstanceIds),
+        type ? eq(schema.MarketTrade.type, type as MarketTradeType) : undefined,
+        market ? eq(schema.MarketTrade.market, market) : undefined,
+        from !== undefined
+          ? gte(schema.MarketTrade.timestamp, from)
+          : undefined,
+        to !== undefined ? lte(schema.MarketTrade.timestamp, to) : undefined
+      )
+    )
+    .orderBy(desc(schema.MarketTrade.timestamp))
+    .limit(pagination.limit + 1)
+    .offset(pagination.offset);
+
+  return c.json(paginate(rows, pagination));
+});
+
+const sumTrades = (
+  column: typeof schema.MarketTrade.collateralAmount,
+  type: MarketTradeType
+) =>
+  sql<string>`coalesce(sum(${column}) filter (where ${schema.MarketTrade.type} = ${type}), 0)`;
+
+/**
+ * Realized profit and loss per market, grouped by condition so redemptions
+ * made through the conditional tokens contract count towards their market.
+ * Outcome tokens still held are not valued.
+ */
+agentInstances.get("/:address/positions", async (c) => {
+  const address = c.req.param("address").toLowerCase();
+  const chain = c.req.query("chain");
+
+  const agentInstanceIds = await findAgentInstanceIds(address, chain);
+  if (agentInstanceIds.length === 0) {
+    throw new NotFoundError(`Agent instance ${address} not found`);
+  }
+
+  const rows = await db
+    .select({
+      chain: schema.MarketTrade.chain,
+      conditionId: schema.MarketTrade.conditionId,
+      collateralToken: schema.MarketTrade.collateralToken,
+      market: max(schema.MarketTrade.market),
+      trades: count(),
+      invested: sumTrades(schema.MarketTrade.collateralAmount, "BUY"),
+      fees: sql<string>`coalesce(sum(${schema.MarketTrade.feeAmount}), 0)`,
+      sold: sumTrades(schema.MarketTrade.collateralAmount, "SELL"),
+      redeemed: sumTrades(schema.MarketTrade.collateralAmount, "REDEEM"),
+      liquidityAdded: sumTrades(
+        schema.MarketTrade.collateralAmount,
+        "ADD_LIQUIDITY"
+      ),
+      liquidityRemoved: sumTrades(
+        schema.MarketTrade.collateralAmount,
+        "REMOVE_LIQUIDITY"
+      ),
+      firstTradeAt: min(schema.MarketTrade.timestamp),
+      lastTradeAt: max(schema.MarketTrade.timestamp),
+    })
+    .from(schema.MarketTrade)
+    .where(inArray(schema.MarketTrade.agentInstanceId, agentInstanceIds))
+    .groupBy(
+      schema.MarketTrade.chain,
+      schema.MarketTrade.conditionId,
+      schema.MarketTrade.collateralToken
+    )
+    .orderBy(desc(max(schema.MarketTrade.timestamp)));
+
+  const collateralTokens = [
+    ...new Set(rows.flatMap((row) => row.collateralToken ?? [])),
+  ];
+  const tokens =
+    collateralTokens.length > 0
+      ? await db
+          .select()
+          .from(schema.Token)
+          .where(inArray(schema.Token.address, collateralTokens))
+      : [];
+
+  const positions: MarketPosition[] = rows.map((row) => {
+    const token = tokens.find(
+      (t) => t.address === row.collateralToken && t.chain === row.chain
+    );
+    // Buy investments include the fee, sell returns are net of it
+    const pnl =
+      BigInt(row.sold) +
+      BigInt(row.redeemed) +
+      BigInt(row.liquidityRemoved) -
+      BigInt(row.invested) -
+      BigInt(row.liquidityAdded);
+
+    return {
+      ...row,
+      market: row.market ?? null,
+      symbol: token?.symbol ?? null,
+      decimals: token?.decimals ?? null,
+      invested: String(row.invested),
+      fees: String(row.fees),
+      sold: String(row.sold),
+      redeemed: String(row.redeemed),
+      liquidityAdded: String(row.liquidityAdded),
+      liquidityRemoved: String(row.liquidityRemoved),
+      pnl: pnl.toString(),
+      firstTradeAt: row.firstTradeAt ?? 0,
+      lastTradeAt: row.lastTradeAt ?? 0,
+    };
+  });
+
+  return c.json({ items: positions });
+});
+
+/**
+ * Mech usage of an instance: requests it sent per mech and, for instances
+ * operating a mech, the deliveries it made.
+ */
+agentInstances.get("/:address/mech-requests", async (c) => {
+  const address = c.req.param("address").toLowerCase();
+  const chain = c.req.query("chain");
+  const { from, to } = getTimeRange(c);
+
+  const agentInstanceIds = await findAgentInstanceIds(address, chain);
+  if (agentInstanceIds.length === 0) {
+    throw new NotFoundError(`Agent instance ${address} not found`);
+  }
+
+  const [requests, deliveries] = await Promise.all([
+    db
+      .select({
+        chain: schema.MechRequest.chain,
+        mech: schema.MechRequest.mech,
+        requests: count(),
+        delivered: count(schema.MechRequest.deliveryId),
+        averageLatency: avg(schema.MechRequest.latency),
+      })
+      .from(schema.MechRequest)
+      .where(
+        and(
+          inArray(schema.MechRequest.agentInstanceId, agentInstanceIds),
+          from !== undefined
+            ? gte(schema.MechRequest.timestamp, from)
+            : undefined,
+          to !== undefined ? lte(schema.MechRequest.timestamp, to) : undefined
+        )
+      )
+      .groupBy(schema.MechRequest.chain, schema.MechRequest.mech)
+      .orderBy(desc(count())),
+    db
+      .select({
+        chain: schema.MechDelivery.chain,
+        mech: schema.MechDelivery.mech,
+        deliveries: count(),
+        averageLatency: avg(schema.MechDelivery.latency),
+      })
+      .from(schema.MechDelivery)
+      .where(
+        and(
+          inArray(schema.MechDelivery.agentInstanceId, agentInstanceIds),
+          from !== undefined
+            ? gte(schema.MechDelivery.timestamp, from)
+            : undefined,
+          to !== undefined ? lte(schema.MechDelivery.timestamp, to) : undefined
+        )
+      )
+      .groupBy(schema.MechDelivery.chain, schema.MechDelivery.mech)
+      .orderBy(desc(count())),
+  ]);
+
+  return c.json({
+    requests: requests.map((row) => ({
+      ...row,
+      averageLatency: roundAverage(row.averageLatency),
+    })),
+    deliveries: deliveries.map((row) => ({
+      ...row,
+      averageLatency: roundAverage(row.averageLatency),
+    })),
+  });
+});
+
+export default agents;
@@ -3,8 +3,35 @@ import schema from "ponder:schema";
 import { Hono } from "hono";
 import { graphql } from "ponder";
 
+import agents, { agentInstances } from "./agents";
+import mechs from "./mechs";
+import search from "./search";
+import services from "./services";
+import transactions from "./transactions";
+import undecoded from "./undecoded";
+import { BadRequestError, NotFoundError } from "./utils";
+
 const app = new Hono();
 
+app.route("/services", services);
+app.route("/agents", agents);
+app.route("/agent-instances", agentInstances);
+app.route("/transactions", transactions);
+app.route("/mechs", mechs);
+app.route("/search", search);
+app.route("/undecoded-signatures", undecoded);
+
+app.onError((error, c) => {
+  if (error instanceof BadRequestError) {
+    return c.json({ error: error.message }, 400);
+  }
+  if (error instanceof NotFoundError) {
+    return c.json({ error: error.message }, 404);
+  }
+  console.error(`Error handling ${c.req.method} ${c.req.path}:`, error);
+  return c.json({ error: "Internal server error" }, 500);
+});
+
 app.use("/", graphql({ db, schema }));
 
-export default app;
\ No newline at end of file
+export default app;
@@ -0,0 +1,166 @@
+import { db } from "ponder:api";
+import schema from "ponder:schema";
+import { Hono } from "hono";
+import { and, avg, count, desc, eq, gte, lte } from "ponder";
+
+import {
+  getPagination,
+  getTimeRange,
+  NotFoundError,
+  paginate,
+  roundAverage,
+  TimeRange,
+} from "./utils";
+
+export interface MechStats {
+  chain: string;
+  mech: string;
+  requests: number;
+  delivered: number;
+  deliveries: number;
+  averageLatency: number | null;
+}
+
+export interface MechRequesterStats {
+  agentInstanceId: string;
+  requests: number;
+  delivered: number;
+  averageLatency: number | null;
+}
+
+/**
+ * Requests are only indexed for agent instance requesters while deliveries
+ * are indexed for agent instance mechs, so both sides are counted separately.
+ */
+export const getMechStats = async (
+  { from, to }: TimeRange,
+  chain?: string,
+  mech?: string
+): Promise<MechStats[]> => {
+  const [requests, deliveries] = await Promise.all([
+    db
+      .select({
+        chain: schema.MechRequest.chain,
+        mech: schema.MechRequest.mech,
+        requests: count(),
+        delivered: count(schema.MechRequest.deliveryId),
+        averageLatency: avg(schema.MechRequest.latency),
+      })
+      .from(schema.MechRequest)
+      .where(
+        and(
+          chain ? eq(schema.MechRequest.chain, chain) : undefined,
+          mech ? eq(schema.MechRequest.mech, mech) : undefined,
+          from !== undefined
+            ? gte(schema.MechRequest.timestamp, from)
+            : undefined,
+          to !== undefined ? lte(schema.MechRequest.timestamp, to) : undefined
+        )
+      )
+      .groupBy(schema.MechRequest.chain, schema.MechRequest.mech),
+    db
+      .select({
+        chain: schema.MechDelivery.chain,
+        mech: schema.MechDelivery.mech,
+        deliveries: count(),
+      })
+      .from(schema.MechDelivery)
+      .where(
+        and(
+          chain ? eq(schema.MechDelivery.chain, chain) : undefined,
+          mech ? eq(schema.MechDelivery.mech, mech) : undefined,
+          from !== undefined
+            ? gte(schema.MechDelivery.timestamp, from)
+            : undefined,
+          to !== undefined ? lte(schema.MechDelivery.timestamp, to) : undefined
+        )
+      )
+      .groupBy(schema.MechDelivery.chain, schema.MechDelivery.mech),
+  ]);
+
+  const stats = new Map<string, MechStats>();
+  for (const row of requests) {
+    stats.set(`${row.chain}-${row.mech}`, {
+      chain: row.chain,
+      mech: row.mech,
+      requests: row.requests,
+      delivered: row.delivered,
+      deliveries: 0,
+      averageLatency: roundAverage(row.averageLatency),
+    });
+  }
+  for (const row of deliveries) {
+    const key = `${row.chain}-${row.mech}`;
+    stats.set(key, {
+      chain: row.chain,
+      mech: row.mech,
+      requests: 0,
+      delivered: 0,
+      averageLatency: null,
+      ...stats.get(key),
+      deliveries: row.deliveries,
+    });
+  }
+
+  return [...stats.values()].sort(
+    (a, b) => b.requests - a.requests || b.deliveries - a.deliveries
+  );
+};
+
+const mechs = new Hono();
+
+mechs.get("/", async (c) => {
+  const pagination = getPagination(c);
+  const stats = await getMechStats(getTimeRange(c), c.req.query("chain"));
+
+  return c.json(
+    paginate(
+      stats.slice(pagination.offset, pagination.offset + pagination.limit + 1),
+      pagination
+    )
+  );
+});
+
+mechs.get("/:chain/:address", async (c) => {
+  const chain = c.req.param("chain");
+  const mech = c.req.param("address").toLowerCase();
+  const { from, to } = getTimeRange(c);
+
+  const [stats] = await getMechStats({ from, to }, chain, mech);
+  if (!stats) {
+    throw new NotFoundError(`Mech ${mech} not found on ${chain}`);
+  }
+
+  const requesters = await db
+    .select({
+      agentInstanceId: schema.MechRequest.agentInstanceId,
+      requests: count(),
+      delivered: count(schema.MechRequest.deliveryId),
+      averageLatency: avg(schema.MechRequest.latency),
+    })
+    .from(schema.MechRequest)
+    .where(
+      and(
+        eq(schema.MechRequest.chain, chain),
+        eq(schema.MechRequest.mech, mech),
+        from !== undefined
+          ? gte(schema.MechRequest.timestamp, from)
+          : undefined,
+        to !== undefined ? lte(schema.MechRequest.timestamp, to) : undefined
+      )
+    )
+    .groupBy(schema.MechRequest.agentInstanceId)
+    .orderBy(desc(count()));
+
+  const response: MechStats & { requesters: MechRequesterStats[] } = {
+    ...stats,
+    requesters: requesters.map((row) => ({
+      ...row,
+      averageLatency: roundAverage(row.averageLatency),
+    })),
+  };
+
+  return c.json(response);
+});
+
+export default mechs;
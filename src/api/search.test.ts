@@ -0,0 +1,81 @@
+import { Hono } from "hono";
+import pgvector from "pgvector";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createStubEmbedding } from "../../utils/openai";
+import search from "./search";
+import { BadRequestError } from "./utils";
+
+vi.hoisted(() => {
+  process.env.EMBEDDING_PROVIDER = "stub";
+});
+
+const { query } = vi.hoisted(() => ({ query: vi.fn() }));
+
+vi.mock("../../utils/postgres", () => ({
+  executeQuery: (callback: (client: { query: typeof query }) => unknown) =>
+    callback({ query }),
+}));
+
+const app = new Hono().route("/search", search);
+app.onError((error, c) =>
+  error instanceof BadRequestError
+    ? c.json({ error: error.message }, 400)
+    : c.json({ error: error.message }, 500)
+);
+
+const ROW = {
+  id: "0xe91d153e0b41518a2ce8dd3d7944fa863463a97d-gnosis",
+  type: "abi",
+  name: null,
+  location:
+    "https://gnosisscan.io/address/0xe91d153e0b41518a2ce8dd3d7944fa863463a97d",
+  originalLocation: null,
+  content: '[{"type":"event","name":"Transfer"}]',
+  score: 0.82,
+};
+
+describe("GET /search", () => {
+  beforeEach(() => {
+    query.mockReset();
+    query.mockResolvedValue({ rows: [ROW] });
+  });
+
+  it("ranks embeddings by distance to the stub embedding of the query", async () => {
+    const response = await app.request(
+      "/search?q=token%20transfer&type=abi&chain=Gnosis&limit=1"
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      items: [ROW],
+      pagination: { limit: 1, offset: 0, hasMore: false },
+    });
+
+    const [sql, params] = query.mock.calls[0]!;
+    expect(sql).toContain("ORDER BY embedding <=> $1");
+    expect(params).toEqual([
+      pgvector.toSql(createStubEmbedding("token transfer")),
+      "abi",
+      "gnosis",
+      2,
+      0,
+    ]);
+  });
+
+  it("rejects a missing query", async () => {
+    const response = await app.request("/search?q=%20");
+
+    expect(response.status).toBe(400);
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it("rejects an unknown type", async () => {
+    const response = await app.request("/search?q=transfer&type=service");
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "type must be one of abi, component",
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { Hono } from "hono";
+
+import { generateEmbeddingWithRetry } from "../../utils/openai";
+import { executeQuery } from "../../utils/postgres";
+import { BadRequestError, getPagination, paginate } from "./utils";
+
+const SEARCH_TYPES = ["abi", "component"] as const;
+type SearchType = (typeof SEARCH_TYPES)[number];
+
+export interface SearchResult {
+  id: string;
+  type: SearchType;
+  name: string | null;
+  location: string;
+  originalLocation: string | null;
+  content: string;
+  score: number;
+}
+
+const isSearchType = (type: string): type is SearchType =>
+  (SEARCH_TYPES as readonly string[]).includes(type);
+
+const search = new Hono();
+
+search.get("/", async (c) => {
+  const query = c.req.query("q")?.trim();
+  const type = c.req.query("type");
+  const chain = c.req.query("chain");
+  const componentId = c.req.query("componentId");
+  const pagination = getPagination(c);
+
+  if (!query) {
+    throw new BadRequestError("q is required");
+  }
+  if (type !== undefined && !isSearchType(type)) {
+    throw new BadRequestError(`type must be one of ${SEARCH_TYPES.join(", ")}`);
+  }
+
+  // Long queries come back chunked; the first chunk carries the intent
+  const embedding = await generateEmbeddingWithRetry(query);
+  const queryEmbedding = Array.isArray(embedding) ? embedding[0] : embedding;
+
+  if (!queryEmbedding) {
+    return c.json({ error: "Embeddings are not configured" }, 503);
+  }
+
+  const params: unknown[] = [queryEmbedding];
+  const conditions = ["deleted_at IS NULL", "embedding IS NOT NULL"];
+
+  if (type) {
+    params.push(type);
+    conditions.push(`type = $${params.length}`);
+  }
+  // ABI rows are keyed as `${address}-${chain}[-chunk]`
+  if (chain) {
+    params.push(chain.toLowerCase());
+    conditions.push(
+      `type = 'abi' AND lower(split_part(id, '-', 2)) = $${params.length}`
+    );
+  }
+  // Component rows are keyed as `${componentId}[-chunk]`
+  if (componentId) {
+    params.push(componentId);
+    conditions.push(
+      `type = 'component' AND (id = $${params.length} OR id LIKE $${params.length} || '-%')`
+    );
+  }
+
+  params.push(pagination.limit + 1, pagination.offset);
+
+  const rows = await executeQuery(async (client) => {
+    const result = await client.query(
+      `SELECT
+         id,
+         type,
+         name,
+         location,
+         original_location AS "originalLocation",
+         content,
+         1 - (embedding <=> $1) AS score
+       FROM context_embeddings
+       WHERE ${conditions.map((condition) => `(${condition})`).join(" AND ")}
+       ORDER BY embedding <=> $1
+       LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    );
+    return result.rows as SearchResult[];
+  });
+
+  return c.json(paginate(rows, pagination));
+});
+
+export default search;
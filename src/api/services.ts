@@ -0,0 +1,228 @@
+import { db } from "ponder:api";
+import schema from "ponder:schema";
+import { Hono } from "hono";
+import { and, asc, desc, eq, gt, gte, isNull, lte, or } from "ponder";
+
+import {
+  BadRequestError,
+  getIntegerQuery,
+  getPagination,
+  getServiceId,
+  getTimeRange,
+  Json,
+  NotFoundError,
+  paginate,
+  toJson,
+} from "./utils";
+
+type Service = typeof schema.Service.$inferSelect;
+type ServiceAgent = typeof schema.ServiceAgent.$inferSelect;
+type ServiceMetadataVersion = typeof schema.ServiceMetadataVersion.$inferSelect;
+type ServiceStateValue = (typeof schema.ServiceState.enumValues)[number];
+
+export type ServiceResponse = Json<Service>;
+
+export type ServiceDetailResponse = ServiceResponse & {
+  instances: Json<ServiceAgent>[];
+};
+
+const METADATA_VERSION_FIELDS = [
+  "configHash",
+  "name",
+  "description",
+  "image",
+  "codeUri",
+  "packageHash",
+  "metadataURI",
+] as const;
+
+const diffMetadataVersions = (
+  from: ServiceMetadataVersion,
+  to: ServiceMetadataVersion
+) => ({
+  serviceId: to.serviceId,
+  from: { version: from.version, blockNumber: from.blockNumber },
+  to: { version: to.version, blockNumber: to.blockNumber },
+  changes: METADATA_VERSION_FIELDS.filter(
+    (field) => from[field] !== to[field]
+  ).map((field) => ({ field, from: from[field], to: to[field] })),
+});
+
+const isServiceState = (state: string): state is ServiceStateValue =>
+  (schema.ServiceState.enumValues as readonly string[]).includes(state);
+
+const services = new Hono();
+
+services.get("/", async (c) => {
+  const pagination = getPagination(c);
+  const { from, to } = getTimeRange(c);
+  const chain = c.req.query("chain");
+  const state = c.req.query("state")?.toUpperCase();
+
+  if (state !== undefined && !isServiceState(state)) {
+    throw new BadRequestError(
+      `state must be one of ${schema.ServiceState.enumValues.join(", ")}`
+    );
+  }
+
+  const filters = [
+    chain ? eq(schema.Service.chain, chain) : undefined,
+    state ? eq(schema.Service.state, state) : undefined,
+    from !== undefined ? gte(schema.Service.timestamp, from) : undefined,
+    to !== undefined ? lte(schema.Service.timestamp, to) : undefined,
+  ];
+
+  const rows = await db
+    .select()
+    .from(schema.Service)
+    .where(and(...filters))
+    .orderBy(desc(schema.Service.timestamp))
+    .limit(pagination.limit + 1)
+    .offset(pagination.offset);
+
+  return c.json(paginate(rows, pagination));
+});
+
+services.get("/:chain/:id", async (c) => {
+  const serviceId = getServiceId(c);
+
+  const [service] = await db
+    .select()
+    .from(schema.Service)
+    .where(eq(schema.Service.id, serviceId))
+    .limit(1);
+
+  if (!service) {
+    throw new NotFoundError(`Service ${serviceId} not found`);
+  }
+
+  const instances = await db
+    .select()
+    .from(schema.ServiceAgent)
+    .where(eq(schema.ServiceAgent.serviceId, serviceId))
+    .orderBy(asc(schema.ServiceAgent.registeredAtBlock));
+
+  const response: ServiceDetailResponse = {
+    ...toJson(service),
+    instances: toJson(instances),
+  };
+
+  return c.json(response);
+});
+
+services.get("/:chain/:id/metadata-versions", async (c) => {
+  const serviceId = getServiceId(c);
+  const blockNumber = getIntegerQuery(c, "block");
+
+  if (blockNumber !== undefined) {
+    const [version] = await db
+      .select()
+      .from(schema.ServiceMetadataVersion)
+      .where(
+        and(
+          eq(schema.ServiceMetadataVersion.serviceId, serviceId),
+          lte(schema.ServiceMetadataVersion.blockNumber, blockNumber),
+          or(
+            isNull(schema.ServiceMetadataVersion.supersededAtBlock),
+            gt(schema.ServiceMetadataVersion.supersededAtBlock, blockNumber)
+          )
+        )
+      )
+      .limit(1);
+
+    if (!version) {
+      throw new NotFoundError(
+        `No metadata for ${serviceId} at block ${blockNumber}`
+      );
+    }
+    return c.json(version);
+  }
+
+  const versions = await db
+    .select()
+    .from(schema.ServiceMetadataVersion)
+    .where(eq(schema.ServiceMetadataVersion.serviceId, serviceId))
+    .orderBy(asc(schema.ServiceMetadataVersion.version));
+
+  return c.json(versions);
+});
+
+services.get("/:chain/:id/metadata-versions/diff", async (c) => {
+  const serviceId = getServiceId(c);
+
+  const versions = await db
+    .select()
+    .from(schema.ServiceMetadataVersion)
+    .where(eq(schema.ServiceMetadataVersion.serviceId, serviceId))
+    .orderBy(asc(schema.ServiceMetadataVersion.version));
+
+  const latest = versions[versions.length - 1];
+  if (!latest) {
+    throw new NotFoundError(`No metadata versions for ${serviceId}`);
+  }
+
+  // Defaults to comparing the latest version with the one before it
+  const toVersion = getIntegerQuery(c, "to") ?? latest.version;
+  const fromVersion = getIntegerQuery(c, "from") ?? toVersion - 1;
+
+  const from = versions.find((version) => version.version === fromVersion);
+  const to = versions.find((version) => version.version === toVersion);
+
+  if (!from || !to) {
+    throw new NotFoundError(
+      `Unknown version for ${serviceId}, available: 0-${latest.version}`
+    );
+  }
+
+  return c.json(diffMetadataVersions(from, to));
+});
+
+services.get("/:chain/:id/instances", async (c) => {
+  const serviceId = getServiceId(c);
+  const blockNumber = getIntegerQuery(c, "block");
+
+  if (blockNumber === undefined) {
+    const memberships = await db
+      .select()
+      .from(schema.ServiceAgent)
+      .where(eq(schema.ServiceAgent.serviceId, serviceId))
+      .orderBy(asc(schema.ServiceAgent.registeredAtBlock));
+
+    return c.json(memberships);
+  }
+
+  // An instance is active from its registration until it is unbonded or the
+  // service is terminated, whichever comes first
+  const activeInstances = await db
+    .select({
+      agentInstanceId: schema.ServiceAgent.agentInstanceId,
+      operator: schema.ServiceAgent.operator,
+      registeredAtBlock: schema.ServiceAgent.registeredAtBlock,
+      agentId: schema.AgentInstance.agentId,
+      address: schema.AgentInstance.address,
+    })
+    .from(schema.ServiceAgent)
+    .leftJoin(
+      schema.AgentInstance,
+      eq(schema.ServiceAgent.agentInstanceId, schema.AgentInstance.id)
+    )
+    .where(
+      and(
+        eq(schema.ServiceAgent.serviceId, serviceId),
+        lte(schema.ServiceAgent.registeredAtBlock, blockNumber),
+        or(
+          isNull(schema.ServiceAgent.unbondedAtBlock),
+          gt(schema.ServiceAgent.unbondedAtBlock, blockNumber)
+        ),
+        or(
+          isNull(schema.ServiceAgent.terminatedAtBlock),
+          gt(schema.ServiceAgent.terminatedAtBlock, blockNumber)
+        )
+      )
+    )
+    .orderBy(asc(schema.ServiceAgent.registeredAtBlock));
+
+  return c.json({ serviceId, blockNumber, instances: activeInstances });
+});
+
+export default services;
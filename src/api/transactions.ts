@@ -0,0 +1,129 @@
+import { db } from "ponder:api";
+import schema from "ponder:schema";
+import { Hono } from "hono";
+import { and, asc, desc, eq, gte, lte } from "ponder";
+
+import {
+  getPagination,
+  getTimeRange,
+  Json,
+  NotFoundError,
+  paginate,
+  parseJsonColumn,
+  toJson,
+} from "./utils";
+
+type Transaction = typeof schema.Transaction.$inferSelect;
+type Log = typeof schema.Log.$inferSelect;
+type InnerCall = typeof schema.InnerCall.$inferSelect;
+
+export type DecodedLog = Omit<Json<Log>, "topics" | "decodedData"> & {
+  topics: string[];
+  decodedData: unknown;
+};
+
+export type DecodedInnerCall = Omit<Json<InnerCall>, "decodedFunction"> & {
+  decodedFunction: unknown;
+};
+
+export type TransactionResponse = Json<Transaction> & {
+  logs: DecodedLog[];
+  innerCalls: DecodedInnerCall[];
+};
+
+const toDecodedLog = (log: Log): DecodedLog => ({
+  ...toJson(log),
+  topics: parseJsonColumn(log.topics) ?? [],
+  decodedData: parseJsonColumn(log.decodedData),
+});
+
+const toDecodedInnerCall = (call: InnerCall): DecodedInnerCall => ({
+  ...toJson(call),
+  decodedFunction: parseJsonColumn(call.decodedFunction),
+});
+
+// Orders "0", "0.1", "0.2", "0.10", "1" as the calls were executed
+const comparePaths = (a: string, b: string) => {
+  const left = a.split(".").map(Number);
+  const right = b.split(".").map(Number);
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    if (left[i] !== right[i]) return left[i]! - right[i]!;
+  }
+  return left.length - right.length;
+};
+
+const transactions = new Hono();
+
+transactions.get("/", async (c) => {
+  const pagination = getPagination(c);
+  const { from, to } = getTimeRange(c);
+  const chain = c.req.query("chain");
+  const status = c.req.query("status");
+
+  const filters = [
+    chain ? eq(schema.Transaction.chain, chain) : undefined,
+    status ? eq(schema.Transaction.status, status) : undefined,
+    from !== undefined ? gte(schema.Transaction.timestamp, from) : undefined,
+    to !== undefined ? lte(schema.Transaction.timestamp, to) : undefined,
+  ];
+
+  const rows = await db
+    .select()
+    .from(schema.Transaction)
+    .where(and(...filters))
+    .orderBy(desc(schema.Transaction.timestamp))
+    .limit(pagination.limit + 1)
+    .offset(pagination.offset);
+
+  return c.json(paginate(rows, pagination));
+});
+
+transactions.get("/:chain/:hash", async (c) => {
+  const chain = c.req.param("chain");
+  const hash = c.req.param("hash").toLowerCase();
+
+  const [transaction] = await db
+    .select()
+    .from(schema.Transaction)
+    .where(
+      and(
+        eq(schema.Transaction.chain, chain),
+        eq(schema.Transaction.hash, hash)
+      )
+    )
+    .limit(1);
+
+  if (!transaction) {
+    throw new NotFoundError(`Transaction ${hash} not found on ${chain}`);
+  }
+
+  const logs = await db
+    .select()
+    .from(schema.Log)
+    .where(
+      and(eq(schema.Log.chain, chain), eq(schema.Log.transactionHash, hash))
+    )
+    .orderBy(asc(schema.Log.logIndex));
+
+  const innerCalls = await db
+    .select()
+    .from(schema.InnerCall)
+    .where(
+      and(
+        eq(schema.InnerCall.chain, chain),
+        eq(schema.InnerCall.transactionHash, hash)
+      )
+    );
+
+  const response: TransactionResponse = {
+    ...toJson(transaction),
+    logs: logs.map(toDecodedLog),
+    innerCalls: innerCalls
+      .sort((a, b) => comparePaths(a.path, b.path))
+      .map(toDecodedInnerCall),
+  };
+
+  return c.json(response);
+});
+
+export default transactions;
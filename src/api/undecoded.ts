@@ -0,0 +1,101 @@
+import { db } from "ponder:api";
+import schema from "ponder:schema";
+import { Hono } from "hono";
+import { and, count, desc, eq, gte, lte, max, min, sum } from "ponder";
+
+import {
+  BadRequestError,
+  getPagination,
+  getTimeRange,
+  paginate,
+} from "./utils";
+
+type SignatureKind = (typeof schema.SignatureKind.enumValues)[number];
+
+const getKind = (value: string | undefined) => {
+  const kind = value?.toUpperCase();
+  if (
+    kind !== undefined &&
+    !(schema.SignatureKind.enumValues as readonly string[]).includes(kind)
+  ) {
+    throw new BadRequestError(
+      `kind must be one of ${schema.SignatureKind.enumValues.join(", ")}`
+    );
+  }
+  return kind as SignatureKind | undefined;
+};
+
+const undecoded = new Hono();
+
+/**
+ * Signatures that could not be decoded, most frequent first. The time range
+ * applies to when a signature was last seen.
+ */
+undecoded.get("/", async (c) => {
+  const pagination = getPagination(c);
+  const { from, to } = getTimeRange(c);
+  const chain = c.req.query("chain");
+  const kind = getKind(c.req.query("kind"));
+  const address = c.req.query("address")?.toLowerCase();
+
+  const rows = await db
+    .select()
+    .from(schema.UndecodedSignature)
+    .where(
+      and(
+        chain ? eq(schema.UndecodedSignature.chain, chain) : undefined,
+        kind ? eq(schema.UndecodedSignature.kind, kind) : undefined,
+        address ? eq(schema.UndecodedSignature.address, address) : undefined,
+        from !== undefined
+          ? gte(schema.UndecodedSignature.lastSeenAt, from)
+          : undefined,
+        to !== undefined
+          ? lte(schema.UndecodedSignature.lastSeenAt, to)
+          : undefined
+      )
+    )
+    .orderBy(desc(schema.UndecodedSignature.occurrences))
+    .limit(pagination.limit + 1)
+    .offset(pagination.offset);
+
+  return c.json(paginate(rows, pagination));
+});
+
+// Contracts ranked by undecoded occurrences, to pick which ABIs to source
+undecoded.get("/contracts", async (c) => {
+  const pagination = getPagination(c);
+  const chain = c.req.query("chain");
+  const kind = getKind(c.req.query("kind"));
+
+  const occurrences = sum(schema.UndecodedSignature.occurrences);
+
+  const rows = await db
+    .select({
+      chain: schema.UndecodedSignature.chain,
+      address: schema.UndecodedSignature.address,
+      signatures: count(),
+      occurrences,
+      firstSeenAt: min(schema.UndecodedSignature.firstSeenAt),
+      lastSeenAt: max(schema.UndecodedSignature.lastSeenAt),
+    })
+    .from(schema.UndecodedSignature)
+    .where(
+      and(
+        chain ? eq(schema.UndecodedSignature.chain, chain) : undefined,
+        kind ? eq(schema.UndecodedSignature.kind, kind) : undefined
+      )
+    )
+    .groupBy(schema.UndecodedSignature.chain, schema.UndecodedSignature.address)
+    .orderBy(desc(occurrences))
+    .limit(pagination.limit + 1)
+    .offset(pagination.offset);
+
+  return c.json(
+    paginate(
+      rows.map((row) => ({ ...row, occurrences: Number(row.occurrences) })),
+      pagination
+    )
+  );
+});
+
+export default undecoded;
@@ -0,0 +1,89 @@
+import type { Context } from "hono";
+import { replaceBigInts } from "ponder";
+import type { ReplaceBigInts } from "ponder";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+export interface Pagination {
+  limit: number;
+  offset: number;
+}
+
+export interface TimeRange {
+  from?: number;
+  to?: number;
+}
+
+export interface Paginated<T> {
+  items: T[];
+  pagination: Pagination & { hasMore: boolean };
+}
+
+// bigint columns are serialized as decimal strings
+export type Json<T> = ReplaceBigInts<T, string>;
+
+export class BadRequestError extends Error {}
+
+export class NotFoundError extends Error {}
+
+const parseInteger = (
+  name: string,
+  value: string | undefined
+): number | undefined => {
+  if (value === undefined || value === "") return undefined;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new BadRequestError(`${name} must be a non-negative integer`);
+  }
+  return parsed;
+};
+
+export const getIntegerQuery = (c: Context, name: string) =>
+  parseInteger(name, c.req.query(name));
+
+export const getPagination = (c: Context): Pagination => ({
+  limit: Math.min(getIntegerQuery(c, "limit") ?? DEFAULT_LIMIT, MAX_LIMIT),
+  offset: getIntegerQuery(c, "offset") ?? 0,
+});
+
+// Time ranges are unix timestamps in seconds, matching the indexed columns
+export const getTimeRange = (c: Context): TimeRange => ({
+  from: getIntegerQuery(c, "from"),
+  to: getIntegerQuery(c, "to"),
+});
+
+/**
+ * Rows are fetched with one extra item so the response can tell whether
+ * another page exists without a separate count query.
+ */
+export const paginate = <T>(
+  rows: T[],
+  pagination: Pagination
+): Paginated<Json<T>> => ({
+  items: toJson(rows.slice(0, pagination.limit)),
+  pagination: {
+    ...pagination,
+    hasMore: rows.length > pagination.limit,
+  },
+});
+
+export const toJson = <T>(value: T): Json<T> =>
+  replaceBigInts(value, (v) => String(v));
+
+// Postgres returns averages as numeric strings
+export const roundAverage = (value: string | null) =>
+  value === null ? null : Math.round(Number(value));
+
+export const getServiceId = (c: Context) =>
+  `${c.req.param("chain")}-${c.req.param("id")}`;
+
+export const parseJsonColumn = (value: string | null) => {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
@@ -1,11 +1,24 @@
-import { ponder } from "ponder:registry";
+import { Context, ponder } from "ponder:registry";
 import {
   Service,
   Agent,
   ServiceAgent,
   ComponentAgent,
   AgentInstance,
+  Component,
+  ComponentDependency,
+  ServiceBond,
+  ServiceSlash,
+  ServiceRefund,
+  Registry,
+  RegistryDrain,
+  ServiceMetadataVersion,
+  UnitMetadataVersion,
 } from "ponder:schema";
+import { and, eq, isNull } from "ponder";
+import { decodeEventLog } from "viem";
+import { ServiceRegistryABI } from "../abis/ServiceRegistryABI";
+import { MetadataJson } from "./types";
 import {
   CONTRACT_NAMES,
   createChainScopedId,
@@ -14,35 +27,204 @@ import {
   getChainName,
   transformIpfsUrl,
 } from "../utils";
+import {
+  createDefaultService,
+  getTransitionEvent,
+  recordServiceStateTransition,
+  transitionServiceState,
+} from "../utils/serviceState";
+import { upsertMultisig } from "../utils/multisig";
 
-const createDefaultService = (
-  serviceId: string,
-  chain: string,
-  blockNumber: number,
-  timestamp: number,
-  configHash?: string | null
-) => ({
-  id: serviceId,
-  chain,
-  securityDeposit: 0n,
-  multisig: "0x" as `0x${string}`,
-  configHash,
-  threshold: 0,
-  maxNumAgentInstances: 0,
-  numAgentInstances: 0,
-  state: "UNREGISTERED" as const,
-  blockNumber,
-  chainId: getChainId(chain),
-  name: null,
-  description: null,
-  image: null,
-  codeUri: null,
-  metadataURI: null,
-  packageHash: null,
-  metadataHash: configHash,
-  timestamp,
-  owner: null,
-});
+// Index of each entry matches the on-chain ServiceRegistry ServiceState enum
+const ONCHAIN_SERVICE_STATES = [
+  "UNREGISTERED", // NonExistent
+  "UNREGISTERED", // PreRegistration
+  "ACTIVE", // ActiveRegistration
+  "REGISTERED", // FinishedRegistration
+  "DEPLOYED", // Deployed
+  "TERMINATED", // TerminatedBonded
+] as const;
+
+// Registry events that carry a serviceId and can be paired with the
+// Deposit/Refund events emitted in the same transaction
+const SERVICE_SCOPED_EVENTS = [
+  "ActivateRegistration",
+  "RegisterInstance",
+  "TerminateService",
+  "OperatorUnbond",
+] as const;
+
+type ServiceScopedEvent = (typeof SERVICE_SCOPED_EVENTS)[number];
+
+const readOnchainService = async (
+  context: Context,
+  contractName: (typeof CONTRACT_NAMES)[number],
+  serviceId: bigint
+) => {
+  try {
+    const contract = context.contracts[contractName];
+    const [, , , threshold, maxNumAgentInstances, numAgentInstances, state] =
+      await context.client.readContract({
+        abi: contract.abi,
+        address: contract.address,
+        functionName: "mapServices",
+        args: [serviceId],
+      });
+
+    return {
+      state: ONCHAIN_SERVICE_STATES[state] ?? null,
+      threshold,
+      maxNumAgentInstances,
+      numAgentInstances,
+    };
+  } catch (error) {
+    console.error(`Failed to read on-chain service ${serviceId}:`, error);
+    return null;
+  }
+};
+
+// Deposit and Refund don't include the serviceId, so it is taken from the
+// closest service scoped registry event emitted in the same transaction
+const findServiceEventForLog = async (
+  context: Context,
+  transactionHash: `0x${string}`,
+  registryAddress: string,
+  logIndex: number
+): Promise<{ eventName: ServiceScopedEvent; serviceId: bigint } | null> => {
+  try {
+    const receipt = await context.client.getTransactionReceipt({
+      hash: transactionHash,
+    });
+
+    let closest: {
+      eventName: ServiceScopedEvent;
+      serviceId: bigint;
+      distance: number;
+    } | null = null;
+
+    for (const log of receipt?.logs || []) {
+      if (log.address.toLowerCase() !== registryAddress.toLowerCase()) {
+        continue;
+      }
+
+      try {
+        const decoded = decodeEventLog({
+          abi: ServiceRegistryABI,
+          data: log.data,
+          topics: log.topics,
+        });
+
+        if (
+          !SERVICE_SCOPED_EVENTS.includes(
+            decoded.eventName as ServiceScopedEvent
+          ) ||
+          !("serviceId" in decoded.args)
+        ) {
+          continue;
+        }
+
+        const distance = Math.abs(Number(log.logIndex) - logIndex);
+        if (!closest || distance < closest.distance) {
+          closest = {
+            eventName: decoded.eventName as ServiceScopedEvent,
+            serviceId: decoded.args.serviceId,
+            distance,
+          };
+        }
+      } catch {
+        continue;
+      }
+    }
+
+    return closest
+      ? { eventName: closest.eventName, serviceId: closest.serviceId }
+      : null;
+  } catch (error) {
+    console.error(
+      `Failed to resolve service for transaction ${transactionHash}:`,
+      error
+    );
+    return null;
+  }
+};
+
+// Agents and components keep every unit hash they were published with, the
+// previous version being closed off when UpdateUnitHash replaces it
+const recordUnitMetadataVersion = async (
+  context: Context,
+  unitType: "agent" | "component",
+  unitId: string,
+  unitHash: string,
+  metadataJson: MetadataJson | null,
+  event: {
+    block: { number: bigint; timestamp: bigint };
+    transaction: { hash: string };
+  }
+) => {
+  const blockNumber = Number(event.block.number);
+
+  try {
+    const unit =
+      unitType === "agent"
+        ? await context.db.find(Agent, { id: unitId })
+        : await context.db.find(Component, { id: unitId });
+    const previousVersion = unit?.metadataVersion ?? null;
+    const version = previousVersion === null ? 0 : previousVersion + 1;
+
+    if (previousVersion !== null) {
+      try {
+        await context.db
+          .update(UnitMetadataVersion, {
+            id: `${unitType}-${unitId}-v${previousVersion}`,
+          })
+          .set({ supersededAtBlock: blockNumber });
+      } catch (e) {
+        console.warn(
+          `Previous metadata version ${previousVersion} missing for ${unitType} ${unitId}`
+        );
+      }
+    }
+
+    await context.db
+      .insert(UnitMetadataVersion)
+      .values({
+        id: `${unitType}-${unitId}-v${version}`,
+        unitId,
+        unitType,
+        version,
+        unitHash,
+        name: metadataJson?.name ?? null,
+        description: metadataJson?.description ?? null,
+        image: metadataJson?.image
+          ? transformIpfsUrl(metadataJson.image)
+          : null,
+        codeUri: metadataJson?.codeUri
+          ? transformIpfsUrl(metadataJson.codeUri)
+          : null,
+        packageHash: metadataJson?.packageHash ?? null,
+        metadataURI: metadataJson?.metadataURI ?? null,
+        transactionHash: event.transaction.hash,
+        blockNumber,
+        timestamp: Number(event.block.timestamp),
+      })
+      .onConflictDoNothing();
+
+    if (unitType === "agent") {
+      await context.db
+        .update(Agent, { id: unitId })
+        .set({ metadataVersion: version });
+    } else {
+      await context.db
+        .update(Component, { id: unitId })
+        .set({ metadataVersion: version });
+    }
+  } catch (error) {
+    console.error(
+      `Error recording metadata version for ${unitType} ${unitId}:`,
+      error
+    );
+  }
+};
 
 ponder.on(`MainnetAgentRegistry:CreateUnit`, async ({ event, context }) => {
   const agentId = event.args.unitId.toString();
@@ -58,6 +240,7 @@ ponder.on(`MainnetAgentRegistry:CreateUnit`, async ({ event, context }) => {
 
   const updateData = {
     id: agentId,
+    chain: context.network.name,
     name: metadataJson.name,
     description: metadataJson.description,
     image: metadataJson.image ? transformIpfsUrl(metadataJson.image) : null,
@@ -81,8 +264,23 @@ ponder.on(`MainnetAgentRegistry:CreateUnit`, async ({ event, context }) => {
       codeUri: updateData.codeUri
         ? transformIpfsUrl(updateData?.codeUri)
         : null,
+      packageHash: updateData.packageHash,
+      metadataHash: updateData.metadataHash,
+      metadataURI: updateData.metadataURI,
+      chain: updateData.chain,
+      blockNumber: updateData.blockNumber,
+      timestamp: updateData.timestamp,
     });
 
+  await recordUnitMetadataVersion(
+    context,
+    "agent",
+    agentId,
+    event.args.unitHash,
+    metadataJson,
+    event
+  );
+
   try {
     const { client } = context;
     const { MainnetAgentRegistry } = context.contracts;
@@ -131,6 +329,7 @@ ponder.on(`MainnetAgentRegistry:Transfer`, async ({ event, context }) => {
         .insert(Agent)
         .values({
           id: agentId,
+          chain: context.network.name,
           operator: event.args.to.toString(),
           name: null,
           description: null,
@@ -149,6 +348,264 @@ ponder.on(`MainnetAgentRegistry:Transfer`, async ({ event, context }) => {
   }
 });
 
+ponder.on(`MainnetAgentRegistry:UpdateUnitHash`, async ({ event, context }) => {
+  const agentId = event.args.unitId.toString();
+  console.log(`[DEBUG] Processing MainnetAgentRegistry:UpdateUnitHash for agent ${agentId} at block ${event.block.number}`);
+  const metadataJson = await fetchMetadata(
+    event.args.unitHash,
+    agentId,
+    "agent"
+  );
+
+  try {
+    await context.db.update(Agent, { id: agentId }).set({
+      name: metadataJson?.name,
+      description: metadataJson?.description,
+      image: metadataJson?.image ? transformIpfsUrl(metadataJson.image) : null,
+      codeUri: metadataJson?.codeUri
+        ? transformIpfsUrl(metadataJson.codeUri)
+        : null,
+      packageHash: metadataJson?.packageHash,
+      metadataHash: event.args.unitHash,
+      metadataURI: metadataJson?.metadataURI,
+    });
+  } catch (e) {
+    console.error(`Error updating hash for agent ${agentId}:`, e);
+  }
+
+  await recordUnitMetadataVersion(
+    context,
+    "agent",
+    agentId,
+    event.args.unitHash,
+    metadataJson,
+    event
+  );
+});
+
+ponder.on(`MainnetComponentRegistry:CreateUnit`, async ({ event, context }) => {
+  const componentId = event.args.unitId.toString();
+  console.log(`[DEBUG] Processing MainnetComponentRegistry:CreateUnit for component ${componentId} at block ${event.block.number}`);
+  const metadataJson = await fetchMetadata(
+    event.args.unitHash,
+    componentId,
+    "component"
+  );
+
+  const componentData = {
+    id: componentId,
+    instance: componentId,
+    name: metadataJson?.name,
+    description: metadataJson?.description,
+    image: metadataJson?.image ? transformIpfsUrl(metadataJson.image) : null,
+    codeUri: metadataJson?.codeUri
+      ? transformIpfsUrl(metadataJson.codeUri)
+      : null,
+    blockNumber: Number(event.block.number),
+    timestamp: Number(event.block.timestamp),
+    packageHash: metadataJson?.packageHash,
+    metadataHash: event.args.unitHash,
+    metadataURI: metadataJson?.metadataURI,
+  };
+
+  try {
+    await context.db
+      .insert(Component)
+      .values(componentData)
+      .onConflictDoUpdate({
+        name: componentData.name,
+        description: componentData.description,
+        image: componentData.image,
+        codeUri: componentData.codeUri,
+        packageHash: componentData.packageHash,
+        metadataHash: componentData.metadataHash,
+        metadataURI: componentData.metadataURI,
+      });
+  } catch (e) {
+    console.error(`Error inserting component ${componentId}:`, e);
+  }
+
+  await recordUnitMetadataVersion(
+    context,
+    "component",
+    componentId,
+    event.args.unitHash,
+    metadataJson,
+    event
+  );
+
+  try {
+    const { client } = context;
+    const { MainnetComponentRegistry } = context.contracts;
+    const dependencies = await client.readContract({
+      abi: MainnetComponentRegistry.abi,
+      address: MainnetComponentRegistry.address,
+      functionName: "getDependencies",
+      args: [event.args.unitId],
+    });
+
+    if (dependencies?.[1]?.length > 0) {
+      const validDependencies = dependencies[1]
+        .map((dep) => dep.toString())
+        .filter((dep) => dep !== "")
+        .map((dependency) => ({
+          id: `${componentId}-${dependency}`,
+          componentId,
+          dependencyId: dependency,
+        }));
+
+      if (validDependencies.length > 0) {
+        console.log(`Inserting dependencies for component ${componentId}`);
+        await context.db
+          .insert(ComponentDependency)
+          .values(validDependencies)
+          .onConflictDoNothing();
+      }
+    }
+  } catch (error) {
+    console.error(
+      `Failed to process dependencies for component ${componentId}:`,
+      error
+    );
+  }
+});
+
+ponder.on(
+  `MainnetComponentRegistry:UpdateUnitHash`,
+  async ({ event, context }) => {
+    const componentId = event.args.unitId.toString();
+    console.log(`[DEBUG] Processing MainnetComponentRegistry:UpdateUnitHash for component ${componentId} at block ${event.block.number}`);
+    const metadataJson = await fetchMetadata(
+      event.args.unitHash,
+      componentId,
+      "component"
+    );
+
+    try {
+      await context.db.update(Component, { id: componentId }).set({
+        name: metadataJson?.name,
+        description: metadataJson?.description,
+        image: metadataJson?.image
+          ? transformIpfsUrl(metadataJson.image)
+          : null,
+        codeUri: metadataJson?.codeUri
+          ? transformIpfsUrl(metadataJson.codeUri)
+          : null,
+        packageHash: metadataJson?.packageHash,
+        metadataHash: event.args.unitHash,
+        metadataURI: metadataJson?.metadataURI,
+      });
+    } catch (e) {
+      console.error(`Error updating hash for component ${componentId}:`, e);
+    }
+
+    await recordUnitMetadataVersion(
+      context,
+      "component",
+      componentId,
+      event.args.unitHash,
+      metadataJson,
+      event
+    );
+  }
+);
+
+ponder.on(`MainnetComponentRegistry:Transfer`, async ({ event, context }) => {
+  const componentId = event.args.id.toString();
+  console.log(`[DEBUG] Processing MainnetComponentRegistry:Transfer for component ${componentId} at block ${event.block.number}`);
+
+  try {
+    await context.db
+      .insert(Component)
+      .values({
+        id: componentId,
+        instance: componentId,
+        operator: event.args.to.toLowerCase(),
+        name: null,
+        description: null,
+        image: null,
+        codeUri: null,
+        blockNumber: Number(event.block.number),
+        timestamp: Number(event.block.timestamp),
+        packageHash: null,
+        metadataHash: null,
+        metadataURI: null,
+      })
+      .onConflictDoUpdate({ operator: event.args.to.toLowerCase() });
+  } catch (e) {
+    console.error("Error in ComponentRegistry:Transfer:", e);
+  }
+});
+
+// Every config hash a service has used is kept as a version, the previous
+// version being closed off at the block the new one becomes active
+const recordServiceMetadataVersion = async (
+  context: Context,
+  serviceId: string,
+  chain: string,
+  configHash: string,
+  metadataJson: MetadataJson | null,
+  event: {
+    block: { number: bigint; timestamp: bigint };
+    transaction: { hash: string };
+  }
+) => {
+  const blockNumber = Number(event.block.number);
+
+  try {
+    const service = await context.db.find(Service, { id: serviceId });
+    const previousVersion = service?.metadataVersion ?? null;
+    const version = previousVersion === null ? 0 : previousVersion + 1;
+
+    if (previousVersion !== null) {
+      try {
+        await context.db
+          .update(ServiceMetadataVersion, {
+            id: `${serviceId}-v${previousVersion}`,
+          })
+          .set({ supersededAtBlock: blockNumber });
+      } catch (e) {
+        console.warn(
+          `Previous metadata version ${previousVersion} missing for ${serviceId}`
+        );
+      }
+    }
+
+    await context.db
+      .insert(ServiceMetadataVersion)
+      .values({
+        id: `${serviceId}-v${version}`,
+        serviceId,
+        chain,
+        version,
+        configHash,
+        name: metadataJson?.name ?? null,
+        description: metadataJson?.description ?? null,
+        image: metadataJson?.image
+          ? transformIpfsUrl(metadataJson.image)
+          : null,
+        codeUri: metadataJson?.codeUri
+          ? transformIpfsUrl(metadataJson.codeUri)
+          : null,
+        packageHash: metadataJson?.packageHash ?? null,
+        metadataURI: metadataJson?.metadataURI ?? null,
+        transactionHash: event.transaction.hash,
+        blockNumber,
+        timestamp: Number(event.block.timestamp),
+      })
+      .onConflictDoNothing();
+
+    await context.db
+      .update(Service, { id: serviceId })
+      .set({ metadataVersion: version });
+  } catch (error) {
+    console.error(
+      `Error recording metadata version for service ${serviceId}:`,
+      error
+    );
+  }
+};
+
 CONTRACT_NAMES.forEach((contractName) => {
   ponder.on(`${contractName}:RegisterInstance`, async ({ event, context }) => {
     const chain = getChainName(contractName);
@@ -158,14 +615,18 @@ CONTRACT_NAMES.forEach((contractName) => {
     );
     console.log(`[DEBUG] Processing ${contractName}:RegisterInstance for service ${serviceId} at block ${event.block.number}`);
     const agentId = event.args.agentId.toString();
-    const agentInstanceId = event.args.agentInstance.toLowerCase();
+    const agentInstanceAddress = event.args.agentInstance.toLowerCase();
+    const agentInstanceId = createChainScopedId(chain, agentInstanceAddress);
 
     //first insert the agent instance if it doesn't exist
     try {
+      // Agents only exist in the agent registry, services on every chain
+      // reference them by the same id. Its CreateUnit fills in the chain.
       await context.db
         .insert(Agent)
         .values({
           id: agentId,
+          chain: null,
           name: null,
           description: null,
           image: null,
@@ -186,56 +647,59 @@ CONTRACT_NAMES.forEach((contractName) => {
         .insert(AgentInstance)
         .values({
           id: agentInstanceId,
+          chain,
+          address: agentInstanceAddress,
           agentId,
           blockNumber: Number(event.block.number),
           timestamp: Number(event.block.timestamp),
         })
         .onConflictDoUpdate({
+          agentId,
           blockNumber: Number(event.block.number),
           timestamp: Number(event.block.timestamp),
         });
 
-      try {
-        await context.db
-          .update(Service, { id: serviceId })
-          .set({ state: "REGISTERED" });
-      } catch (e) {
-        console.error("Error updating service state:", e);
+      const onchainService = await readOnchainService(
+        context,
+        contractName,
+        event.args.serviceId
+      );
+
+      await transitionServiceState(
+        context,
+        serviceId,
+        chain,
+        onchainService?.state ?? "REGISTERED",
+        getTransitionEvent("RegisterInstance", event)
+      );
+
+      if (onchainService) {
+        try {
+          await context.db.update(Service, { id: serviceId }).set({
+            numAgentInstances: onchainService.numAgentInstances,
+            maxNumAgentInstances: onchainService.maxNumAgentInstances,
+          });
+        } catch (e) {
+          console.error("Error updating service instance counts:", e);
+        }
       }
 
       try {
+        // A new membership row per registration, so instances that unbond and
+        // register again keep their earlier periods
         await context.db
           .insert(ServiceAgent)
           .values({
-            id: `${serviceId}-${agentInstanceId}`,
+            id: `${serviceId}-${agentInstanceId}-${event.block.number}`,
             serviceId,
             agentInstanceId,
+            operator: event.args.operator.toLowerCase(),
+            registeredAtBlock: Number(event.block.number),
+            registeredAtTimestamp: Number(event.block.timestamp),
           })
-          .onConflictDoUpdate({
-            serviceId,
-            agentInstanceId,
-          });
+          .onConflictDoNothing();
       } catch (e) {
         console.error("Error inserting service agent connection:", e);
-        try {
-          const defaultService = createDefaultService(
-            serviceId,
-            chain,
-            Number(event.block.number),
-            Number(event.block.timestamp)
-          );
-          await context.db
-            .insert(Service)
-            .values({ ...defaultService, state: "REGISTERED" })
-            .onConflictDoUpdate({
-              state: "REGISTERED",
-            });
-        } catch (insertError) {
-          console.error(
-            "Error in RegisterInstance fallback handler:",
-            insertError
-          );
-        }
       }
     } catch (e) {
       console.error("Error in RegisterInstance handler:", e);
@@ -266,6 +730,8 @@ CONTRACT_NAMES.forEach((contractName) => {
       maxNumAgentInstances: 0,
       numAgentInstances: 0,
       state: "UNREGISTERED" as const,
+      stateBlockNumber: Number(event.block.number),
+      stateLogIndex: event.log.logIndex,
       blockNumber: Number(event.block.number),
       chainId: getChainId(chain),
       name: metadataJson?.name,
@@ -294,11 +760,36 @@ CONTRACT_NAMES.forEach((contractName) => {
         `Error inserting service ${serviceId}, attempting update`,
         e
       );
+      // The state only moves through transitionServiceState
+      const {
+        state: _state,
+        stateBlockNumber: _stateBlockNumber,
+        stateLogIndex: _stateLogIndex,
+        ...serviceFields
+      } = serviceData;
       await context.db.update(Service, { id: serviceId }).set({
-        ...serviceData,
+        ...serviceFields,
         multisig: serviceData.multisig as `0x${string}`,
       });
     }
+
+    await recordServiceStateTransition(
+      context,
+      serviceId,
+      chain,
+      null,
+      "UNREGISTERED",
+      getTransitionEvent("CreateService", event)
+    );
+
+    await recordServiceMetadataVersion(
+      context,
+      serviceId,
+      chain,
+      event.args.configHash,
+      metadataJson,
+      event
+    );
   });
 
   ponder.on(`${contractName}:DeployService`, async ({ event, context }) => {
@@ -309,25 +800,15 @@ CONTRACT_NAMES.forEach((contractName) => {
     );
     console.log(`[DEBUG] Processing ${contractName}:DeployService for service ${serviceId} at block ${event.block.number}`);
     try {
-      await context.db
-        .update(Service, { id: serviceId })
-        .set({ state: "DEPLOYED" });
+      await transitionServiceState(
+        context,
+        serviceId,
+        chain,
+        "DEPLOYED",
+        getTransitionEvent("DeployService", event)
+      );
     } catch (e) {
-      console.error("Error updating service, attempting creation:", e);
-      try {
-        const defaultService = createDefaultService(
-          serviceId,
-          chain,
-          Number(event.block.number),
-          Number(event.block.timestamp)
-        );
-        await context.db
-          .insert(Service)
-          .values({ ...defaultService, state: "DEPLOYED" })
-          .onConflictDoUpdate({ state: "DEPLOYED" });
-      } catch (insertError) {
-        console.error("Error in DeployService fallback handler:", insertError);
-      }
+      console.error("Error in DeployService handler:", e);
     }
   });
 
@@ -364,6 +845,12 @@ CONTRACT_NAMES.forEach((contractName) => {
           );
         }
       }
+
+      try {
+        await upsertMultisig(context, event.args.multisig, serviceId, event);
+      } catch (e) {
+        console.error(`Error linking multisig for service ${serviceId}:`, e);
+      }
     }
   );
 
@@ -375,28 +862,43 @@ CONTRACT_NAMES.forEach((contractName) => {
     );
     console.log(`[DEBUG] Processing ${contractName}:TerminateService for service ${serviceId} at block ${event.block.number}`);
     try {
-      await context.db
-        .update(Service, { id: serviceId })
-        .set({ state: "TERMINATED" });
-    } catch (e) {
-      console.error("Error updating service, attempting creation:", e);
-      try {
-        const defaultService = createDefaultService(
+      await transitionServiceState(
+        context,
+        serviceId,
+        chain,
+        "TERMINATED",
+        getTransitionEvent("TerminateService", event)
+      );
+
+      await context.db.sql
+        .update(ServiceAgent)
+        .set({ terminatedAtBlock: Number(event.block.number) })
+        .where(
+          and(
+            eq(ServiceAgent.serviceId, serviceId),
+            isNull(ServiceAgent.unbondedAtBlock),
+            isNull(ServiceAgent.terminatedAtBlock)
+          )
+        );
+
+      // Services without bonded operators skip straight back to
+      // pre-registration, so no OperatorUnbond will follow
+      const onchainService = await readOnchainService(
+        context,
+        contractName,
+        event.args.serviceId
+      );
+      if (onchainService?.state === "UNREGISTERED") {
+        await transitionServiceState(
+          context,
           serviceId,
           chain,
-          Number(event.block.number),
-          Number(event.block.timestamp)
-        );
-        await context.db
-          .insert(Service)
-          .values({ ...defaultService, state: "TERMINATED" })
-          .onConflictDoUpdate({ state: "TERMINATED" });
-      } catch (insertError) {
-        console.error(
-          "Error in TerminateService fallback handler:",
-          insertError
+          "UNREGISTERED",
+          getTransitionEvent("TerminateService", event)
         );
       }
+    } catch (e) {
+      console.error("Error in TerminateService handler:", e);
     }
   });
 
@@ -407,12 +909,12 @@ CONTRACT_NAMES.forEach((contractName) => {
       event.args.serviceId.toString().toLowerCase()
     );
     console.log(`[DEBUG] Processing ${contractName}:UpdateService for service ${serviceId} at block ${event.block.number}`);
+    const metadataJson = await fetchMetadata(
+      event.args.configHash,
+      serviceId,
+      "service"
+    );
     try {
-      const metadataJson = await fetchMetadata(
-        event.args.configHash,
-        serviceId,
-        "service"
-      );
       const packageHash = metadataJson?.packageHash;
       await context.db.update(Service, { id: serviceId }).set({
         metadataURI: metadataJson?.metadataURI,
@@ -449,6 +951,15 @@ CONTRACT_NAMES.forEach((contractName) => {
         console.error("Error in UpdateService fallback handler:", insertError);
       }
     }
+
+    await recordServiceMetadataVersion(
+      context,
+      serviceId,
+      chain,
+      event.args.configHash,
+      metadataJson,
+      event
+    );
   });
 
   ponder.on(`${contractName}:Transfer`, async ({ event, context }) => {
@@ -492,4 +1003,253 @@ CONTRACT_NAMES.forEach((contractName) => {
       }
     }
   });
+
+  ponder.on(
+    `${contractName}:ActivateRegistration`,
+    async ({ event, context }) => {
+      const chain = getChainName(contractName);
+      const serviceId = createChainScopedId(
+        chain,
+        event.args.serviceId.toString().toLowerCase()
+      );
+      console.log(`[DEBUG] Processing ${contractName}:ActivateRegistration for service ${serviceId} at block ${event.block.number}`);
+      try {
+        await transitionServiceState(
+          context,
+          serviceId,
+          chain,
+          "ACTIVE",
+          getTransitionEvent("ActivateRegistration", event)
+        );
+      } catch (e) {
+        console.error("Error in ActivateRegistration handler:", e);
+      }
+    }
+  );
+
+  ponder.on(`${contractName}:Deposit`, async ({ event, context }) => {
+    const chain = getChainName(contractName);
+    console.log(`[DEBUG] Processing ${contractName}:Deposit from ${event.args.sender} at block ${event.block.number}`);
+    const serviceEvent = await findServiceEventForLog(
+      context,
+      event.transaction.hash,
+      context.contracts[contractName].address,
+      event.log.logIndex
+    );
+    const serviceId = serviceEvent
+      ? createChainScopedId(chain, serviceEvent.serviceId.toString())
+      : null;
+    const bondType =
+      serviceEvent?.eventName === "ActivateRegistration"
+        ? ("SECURITY_DEPOSIT" as const)
+        : serviceEvent?.eventName === "RegisterInstance"
+        ? ("AGENT_BOND" as const)
+        : null;
+
+    try {
+      await context.db
+        .insert(ServiceBond)
+        .values({
+          id: `${chain}-${event.transaction.hash}-${event.log.logIndex}`,
+          serviceId,
+          chain,
+          sender: event.args.sender.toLowerCase(),
+          amount: event.args.amount,
+          bondType,
+          transactionHash: event.transaction.hash,
+          blockNumber: Number(event.block.number),
+          timestamp: Number(event.block.timestamp),
+        })
+        .onConflictDoNothing();
+    } catch (e) {
+      console.error("Error inserting service bond:", e);
+    }
+
+    if (serviceId && bondType === "SECURITY_DEPOSIT") {
+      try {
+        await context.db
+          .update(Service, { id: serviceId })
+          .set({ securityDeposit: event.args.amount });
+      } catch (e) {
+        console.error(`Error updating security deposit for ${serviceId}:`, e);
+      }
+    }
+  });
+
+  ponder.on(`${contractName}:Refund`, async ({ event, context }) => {
+    const chain = getChainName(contractName);
+    console.log(`[DEBUG] Processing ${contractName}:Refund to ${event.args.receiver} at block ${event.block.number}`);
+    const serviceEvent = await findServiceEventForLog(
+      context,
+      event.transaction.hash,
+      context.contracts[contractName].address,
+      event.log.logIndex
+    );
+    const refundType =
+      serviceEvent?.eventName === "TerminateService"
+        ? ("TERMINATION" as const)
+        : serviceEvent?.eventName === "OperatorUnbond"
+        ? ("UNBOND" as const)
+        : null;
+
+    try {
+      await context.db
+        .insert(ServiceRefund)
+        .values({
+          id: `${chain}-${event.transaction.hash}-${event.log.logIndex}`,
+          serviceId: serviceEvent
+            ? createChainScopedId(chain, serviceEvent.serviceId.toString())
+            : null,
+          chain,
+          receiver: event.args.receiver.toLowerCase(),
+          amount: event.args.amount,
+          refundType,
+          transactionHash: event.transaction.hash,
+          blockNumber: Number(event.block.number),
+          timestamp: Number(event.block.timestamp),
+        })
+        .onConflictDoNothing();
+    } catch (e) {
+      console.error("Error inserting service refund:", e);
+    }
+  });
+
+  ponder.on(`${contractName}:OperatorSlashed`, async ({ event, context }) => {
+    const chain = getChainName(contractName);
+    const serviceId = createChainScopedId(
+      chain,
+      event.args.serviceId.toString().toLowerCase()
+    );
+    console.log(`[DEBUG] Processing ${contractName}:OperatorSlashed for service ${serviceId} at block ${event.block.number}`);
+    try {
+      await context.db
+        .insert(ServiceSlash)
+        .values({
+          id: `${chain}-${event.transaction.hash}-${event.log.logIndex}`,
+          serviceId,
+          chain,
+          operator: event.args.operator.toLowerCase(),
+          amount: event.args.amount,
+          transactionHash: event.transaction.hash,
+          blockNumber: Number(event.block.number),
+          timestamp: Number(event.block.timestamp),
+        })
+        .onConflictDoNothing();
+    } catch (e) {
+      console.error("Error inserting service slash:", e);
+    }
+  });
+
+  ponder.on(`${contractName}:OperatorUnbond`, async ({ event, context }) => {
+    const chain = getChainName(contractName);
+    const serviceId = createChainScopedId(
+      chain,
+      event.args.serviceId.toString().toLowerCase()
+    );
+    console.log(`[DEBUG] Processing ${contractName}:OperatorUnbond for service ${serviceId} at block ${event.block.number}`);
+    try {
+      await context.db.sql
+        .update(ServiceAgent)
+        .set({ unbondedAtBlock: Number(event.block.number) })
+        .where(
+          and(
+            eq(ServiceAgent.serviceId, serviceId),
+            eq(ServiceAgent.operator, event.args.operator.toLowerCase()),
+            isNull(ServiceAgent.unbondedAtBlock)
+          )
+        );
+    } catch (e) {
+      console.error(`Error unbonding instances for service ${serviceId}:`, e);
+    }
+
+    const onchainService = await readOnchainService(
+      context,
+      contractName,
+      event.args.serviceId
+    );
+
+    // The registry moves back to pre-registration once the last operator
+    // of a terminated service has unbonded
+    if (onchainService?.state !== "UNREGISTERED") {
+      return;
+    }
+
+    try {
+      await transitionServiceState(
+        context,
+        serviceId,
+        chain,
+        "UNREGISTERED",
+        getTransitionEvent("OperatorUnbond", event)
+      );
+      await context.db
+        .update(Service, { id: serviceId })
+        .set({ numAgentInstances: onchainService.numAgentInstances });
+    } catch (e) {
+      console.error(`Error updating service ${serviceId} after unbond:`, e);
+    }
+  });
+
+  ponder.on(`${contractName}:Drain`, async ({ event, context }) => {
+    const chain = getChainName(contractName);
+    console.log(`[DEBUG] Processing ${contractName}:Drain by ${event.args.drainer} at block ${event.block.number}`);
+    try {
+      await context.db
+        .insert(RegistryDrain)
+        .values({
+          id: `${chain}-${event.transaction.hash}-${event.log.logIndex}`,
+          chain,
+          drainer: event.args.drainer.toLowerCase(),
+          amount: event.args.amount,
+          transactionHash: event.transaction.hash,
+          blockNumber: Number(event.block.number),
+          timestamp: Number(event.block.timestamp),
+        })
+        .onConflictDoNothing();
+
+      await context.db
+        .insert(Registry)
+        .values({
+          id: chain,
+          chain,
+          address: context.contracts[contractName].address.toLowerCase(),
+          manager: null,
+          drainedAmount: event.args.amount,
+          blockNumber: Number(event.block.number),
+          timestamp: Number(event.block.timestamp),
+        })
+        .onConflictDoUpdate((row) => ({
+          drainedAmount: row.drainedAmount + event.args.amount,
+          blockNumber: Number(event.block.number),
+          timestamp: Number(event.block.timestamp),
+        }));
+    } catch (e) {
+      console.error("Error in Drain handler:", e);
+    }
+  });
+
+  ponder.on(`${contractName}:ManagerUpdated`, async ({ event, context }) => {
+    const chain = getChainName(contractName);
+    console.log(`[DEBUG] Processing ${contractName}:ManagerUpdated to ${event.args.manager} at block ${event.block.number}`);
+    try {
+      await context.db
+        .insert(Registry)
+        .values({
+          id: chain,
+          chain,
+          address: context.contracts[contractName].address.toLowerCase(),
+          manager: event.args.manager.toLowerCase(),
+          drainedAmount: 0n,
+          blockNumber: Number(event.block.number),
+          timestamp: Number(event.block.timestamp),
+        })
+        .onConflictDoUpdate({
+          manager: event.args.manager.toLowerCase(),
+          blockNumber: Number(event.block.number),
+          timestamp: Number(event.block.timestamp),
+        });
+    } catch (e) {
+      console.error("Error in ManagerUpdated handler:", e);
+    }
+  });
 });
@@ -0,0 +1,236 @@
+import { Context, ponder } from "ponder:registry";
+import {
+  Multisig,
+  MultisigConfigChange,
+  MultisigExecution,
+} from "ponder:schema";
+import { decodeFunctionData, Hex } from "viem";
+
+import { GnosisSafeABI } from "../abis/GnosisSafe";
+import { MULTISIG_NAMES } from "../utils";
+import { SIGNATURES } from "../utils/constants";
+import { OPERATION, unpackCalls } from "../utils/innerCalls";
+import {
+  getOrCreateMultisig,
+  insertMultisigTransfer,
+  recordIncomingTokenTransfers,
+  recordMultisigTokenTransfers,
+} from "../utils/multisig";
+
+type MultisigChangeType = (typeof MultisigConfigChange.$inferSelect)["changeType"];
+
+/**
+ * Finds the execTransaction call that targeted the multisig, either as the
+ * transaction itself or wrapped in another Safe or MultiSend batch.
+ */
+function findExecTransaction(event: any, multisigAddress: string) {
+  const to = event.transaction.to?.toLowerCase();
+  const input = event.transaction.input as Hex;
+  const calls = to
+    ? [{ to, data: input }, ...unpackCalls(to, to, input)]
+    : [];
+
+  const execCall = calls.find(
+    (call) =>
+      call.to === multisigAddress &&
+      call.data.startsWith(SIGNATURES.SAFE.EXEC_TRANSACTION)
+  );
+  if (!execCall) return null;
+
+  try {
+    const { args } = decodeFunctionData({
+      abi: GnosisSafeABI,
+      data: execCall.data,
+    });
+    const [innerTo, value, data, operation] = args as unknown as [
+      string,
+      bigint,
+      Hex,
+      number,
+    ];
+    return { to: innerTo.toLowerCase(), value, data, operation };
+  } catch (error) {
+    console.error(
+      `[MULTISIG] Failed to decode execTransaction in ${event.transaction.hash}:`,
+      error
+    );
+    return null;
+  }
+}
+
+/**
+ * Returns the calls of an execution that send native value out of the
+ * multisig: the call itself, and those of a MultiSend batch it delegatecalls,
+ * which the multisig makes as well. Paths are those of unpackCalls.
+ */
+function getOutgoingNativeCalls(
+  multisigAddress: string,
+  execution: NonNullable<ReturnType<typeof findExecTransaction>>
+) {
+  const account =
+    execution.operation === OPERATION.DELEGATE_CALL
+      ? multisigAddress
+      : execution.to;
+  const calls: {
+    path?: string;
+    from: string;
+    to: string;
+    value: bigint;
+    operation: number;
+  }[] = [
+    { from: multisigAddress, ...execution },
+    ...unpackCalls(account, execution.to, execution.data),
+  ];
+
+  return calls.filter(
+    (call) =>
+      call.from === multisigAddress &&
+      call.operation === OPERATION.CALL &&
+      call.value > 0n
+  );
+}
+
+async function recordExecution(context: Context, event: any, success: boolean) {
+  const multisig = await getOrCreateMultisig(context, event);
+  const execution = findExecTransaction(event, multisig.address);
+  const id = `${multisig.id}-${event.transaction.hash}-${event.log.logIndex}`;
+
+  try {
+    await context.db
+      .insert(MultisigExecution)
+      .values({
+        id,
+        multisigId: multisig.id,
+        serviceId: multisig.serviceId,
+        chain: multisig.chain,
+        safeTxHash: event.args.txHash,
+        success,
+        payment: event.args.payment,
+        executor: event.transaction.from.toLowerCase(),
+        to: execution?.to ?? null,
+        value: execution?.value ?? null,
+        operation: execution?.operation ?? null,
+        data: execution?.data ?? null,
+        transactionHash: event.transaction.hash,
+        blockNumber: Number(event.block.number),
+        timestamp: Number(event.block.timestamp),
+      })
+      .onConflictDoNothing();
+  } catch (error) {
+    console.error(`[MULTISIG] Error inserting execution ${id}:`, error);
+  }
+
+  await recordIncomingTokenTransfers(context, multisig, event);
+
+  if (!success) return;
+
+  const nativeCalls = execution
+    ? getOutgoingNativeCalls(multisig.address, execution)
+    : [];
+  for (const call of nativeCalls) {
+    await insertMultisigTransfer(
+      context,
+      multisig,
+      {
+        type: "NATIVE",
+        from: multisig.address,
+        to: call.to,
+        amount: call.value.toString(),
+        logIndex: event.log.logIndex,
+        callPath: call.path,
+      },
+      event
+    );
+  }
+
+  await recordMultisigTokenTransfers(context, multisig, event);
+}
+
+async function recordConfigChange(
+  context: Context,
+  event: any,
+  changeType: MultisigChangeType,
+  update: (
+    multisig: typeof Multisig.$inferSelect
+  ) => Partial<typeof Multisig.$inferInsert>
+) {
+  const multisig = await getOrCreateMultisig(context, event);
+
+  try {
+    await context.db.update(Multisig, { id: multisig.id }).set(update);
+
+    await context.db
+      .insert(MultisigConfigChange)
+      .values({
+        id: `${multisig.id}-${event.transaction.hash}-${event.log.logIndex}`,
+        multisigId: multisig.id,
+        serviceId: multisig.serviceId,
+        changeType,
+        owner: event.args.owner?.toLowerCase() ?? null,
+        threshold:
+          event.args.threshold !== undefined
+            ? Number(event.args.threshold)
+            : null,
+        transactionHash: event.transaction.hash,
+        blockNumber: Number(event.block.number),
+        timestamp: Number(event.block.timestamp),
+      })
+      .onConflictDoNothing();
+  } catch (error) {
+    console.error(
+      `[MULTISIG] Error recording ${changeType} for ${multisig.id}:`,
+      error
+    );
+  }
+
+  await recordIncomingTokenTransfers(context, multisig, event);
+}
+
+MULTISIG_NAMES.forEach((contractName) => {
+  ponder.on(`${contractName}:ExecutionSuccess`, async ({ event, context }) => {
+    console.log(`[DEBUG] Processing ${contractName}:ExecutionSuccess for ${event.log.address} at block ${event.block.number}`);
+    await recordExecution(context, event, true);
+  });
+
+  ponder.on(`${contractName}:ExecutionFailure`, async ({ event, context }) => {
+    console.log(`[DEBUG] Processing ${contractName}:ExecutionFailure for ${event.log.address} at block ${event.block.number}`);
+    await recordExecution(context, event, false);
+  });
+
+  ponder.on(`${contractName}:AddedOwner`, async ({ event, context }) => {
+    const owner = event.args.owner.toLowerCase();
+    await recordConfigChange(context, event, "ADDED_OWNER", (multisig) => ({
+      owners: [...(multisig.owners ?? []).filter((o) => o !== owner), owner],
+    }));
+  });
+
+  ponder.on(`${contractName}:RemovedOwner`, async ({ event, context }) => {
+    const owner = event.args.owner.toLowerCase();
+    await recordConfigChange(context, event, "REMOVED_OWNER", (multisig) => ({
+      owners: (multisig.owners ?? []).filter((o) => o !== owner),
+    }));
+  });
+
+  ponder.on(`${contractName}:ChangedThreshold`, async ({ event, context }) => {
+    await recordConfigChange(context, event, "CHANGED_THRESHOLD", () => ({
+      threshold: Number(event.args.threshold),
+    }));
+  });
+
+  ponder.on(`${contractName}:SafeReceived`, async ({ event, context }) => {
+    const multisig = await getOrCreateMultisig(context, event);
+    await insertMultisigTransfer(
+      context,
+      multisig,
+      {
+        type: "NATIVE",
+        from: event.args.sender.toLowerCase(),
+        to: multisig.address,
+        amount: event.args.value.toString(),
+        logIndex: event.log.logIndex,
+      },
+      event
+    );
+    await recordIncomingTokenTransfers(context, multisig, event);
+  });
+});
@@ -1,12 +1,22 @@
 import { ponder } from "ponder:registry";
 import {
   checkAndStoreAbi,
+  CONTRACT_NAMES,
   REGISTER_NAMES,
 } from "../utils";
+import { loadStoredSelectors } from "../utils/abiStore";
 import { processTransaction } from "../utils/transactionHandling";
 
 const needsAbiTransaction = !!process.env.ABI_DATABASE_URL;
 
+// Each registry starts no later than the other sources of its chain, so the
+// stored selectors are loaded before the first transaction is decoded
+CONTRACT_NAMES.forEach((contractName) => {
+  ponder.on(`${contractName}:setup`, async () => {
+    await loadStoredSelectors();
+  });
+});
+
 REGISTER_NAMES.forEach((contractName) => {
   ponder.on(`${contractName}:transaction:from`, ({ event, context }: any) => {
     void processTransaction(event.transaction.hash, event, context, true);
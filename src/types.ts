@@ -1,9 +1,11 @@
 export interface TokenTransferData {
-  type: "ERC20" | "ERC721" | "ERC1155" | "UNKNOWN";
+  type: "NATIVE" | "ERC20" | "ERC721" | "ERC1155" | "UNKNOWN";
+  token?: string;
   from?: string;
   to?: string;
   tokenId?: string;
   amount?: string;
+  logIndex?: number;
   data?: string;
   decodedFunction?: {
     functionName: string;
@@ -0,0 +1,138 @@
+import axios from "axios";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  AbiProvider,
+  createExplorerProvider,
+  getAbiProviders,
+  localAbiProvider,
+  resolveAbi,
+  setAbiProviders,
+} from "./abiProviders";
+
+const TRANSFER_ABI = [
+  {
+    type: "event",
+    name: "Transfer",
+    inputs: [
+      { indexed: true, name: "from", type: "address" },
+      { indexed: true, name: "to", type: "address" },
+      { indexed: false, name: "value", type: "uint256" },
+    ],
+  },
+];
+
+const lookup = {
+  address: "0xe91d153e0b41518a2ce8dd3d7944fa863463a97d",
+  chainId: 100,
+  network: "gnosis",
+};
+
+const provider = (
+  name: string,
+  fetchAbi: AbiProvider["fetchAbi"]
+): AbiProvider & { fetchAbi: ReturnType<typeof vi.fn> } => ({
+  name,
+  fetchAbi: vi.fn(fetchAbi),
+});
+
+describe("resolveAbi", () => {
+  const defaultProviders = getAbiProviders();
+
+  afterEach(() => {
+    setAbiProviders(defaultProviders);
+  });
+
+  it("falls back in order until a provider has the ABI", async () => {
+    const missing = provider("missing", async () => null);
+    const empty = provider("empty", async () => []);
+    const found = provider("found", async () => TRANSFER_ABI);
+    const unused = provider("unused", async () => TRANSFER_ABI);
+    setAbiProviders([missing, empty, found, unused]);
+
+    await expect(resolveAbi(lookup)).resolves.toEqual({
+      abi: TRANSFER_ABI,
+      source: "found",
+    });
+    expect(missing.fetchAbi).toHaveBeenCalledWith(lookup);
+    expect(empty.fetchAbi).toHaveBeenCalledWith(lookup);
+    expect(unused.fetchAbi).not.toHaveBeenCalled();
+  });
+
+  it("moves on when a provider fails", async () => {
+    const failing = provider("failing", async () => {
+      throw new Error("rate limited");
+    });
+    const found = provider("found", async () => TRANSFER_ABI);
+    setAbiProviders([failing, found]);
+
+    await expect(resolveAbi(lookup)).resolves.toEqual({
+      abi: TRANSFER_ABI,
+      source: "found",
+    });
+  });
+
+  it("returns null when no provider has the ABI", async () => {
+    setAbiProviders([provider("missing", async () => null)]);
+
+    await expect(resolveAbi(lookup)).resolves.toBeNull();
+  });
+
+  it("reports a failure when a provider without the ABI failed", async () => {
+    setAbiProviders([
+      provider("failing", async () => {
+        throw new Error("rate limited");
+      }),
+      provider("missing", async () => null),
+    ]);
+
+    await expect(resolveAbi(lookup)).resolves.toBe("failed");
+  });
+});
+
+describe("createExplorerProvider", () => {
+  const explorer = createExplorerProvider(
+    "explorer",
+    () => "https://explorer.test/api"
+  );
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("answers null for unverified contracts", async () => {
+    vi.spyOn(axios, "get").mockResolvedValue({
+      data: {
+        status: "0",
+        message: "NOTOK",
+        result: "Contract source code not verified",
+      },
+    });
+
+    await expect(explorer.fetchAbi(lookup)).resolves.toBeNull();
+  });
+
+  it("throws when rate limited", async () => {
+    vi.spyOn(axios, "get").mockResolvedValue({
+      data: { status: "0", message: "NOTOK", result: "Max rate limit reached" },
+    });
+
+    await expect(explorer.fetchAbi(lookup)).rejects.toThrow(
+      "Max rate limit reached"
+    );
+  });
+});
+
+describe("localAbiProvider", () => {
+  it("answers for the registries this indexer is configured with", async () => {
+    const abi = await localAbiProvider.fetchAbi({
+      address: "0x9338b5153ae39bb89f50468e608ed9d764b755fd",
+      chainId: 100,
+      network: "gnosis",
+    });
+
+    expect(abi).toContainEqual(
+      expect.objectContaining({ type: "event", name: "RegisterInstance" })
+    );
+  });
+});
@@ -0,0 +1,487 @@
+import axios from "axios";
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+import pQueue from "p-queue";
+
+import { AgentRegistryABI } from "../abis/AgentRegistry";
+import { ComponentRegistryABI } from "../abis/ComponentRegistry";
+import { ServiceRegistryABI } from "../abis/ServiceRegistryABI";
+
+const INITIAL_RETRY_DELAY = 5000;
+
+const INITIAL_TIMEOUT = 30000; // 30 seconds
+const MAX_TIMEOUT = 60000; // 60 seconds
+const TIMEOUT_MULTIPLIER = 1.5;
+
+// Lookups wait on the provider chain, and a missing ABI is cached as a
+// negative response and retried later anyway
+const MAX_RETRIES = 3;
+
+// Fallback providers give up quickly so the next one gets a chance
+const PROVIDER_TIMEOUT = 10000;
+
+export interface AbiLookup {
+  address: string;
+  chainId: number;
+  network: string;
+}
+
+export interface AbiProvider {
+  name: string;
+  fetchAbi: (lookup: AbiLookup) => Promise<unknown[] | null>;
+}
+
+export interface ResolvedAbi {
+  abi: unknown[];
+  source: string;
+}
+
+// Null when every provider answered it has no ABI, "failed" when one of
+// them could not be asked, so the missing ABI is not worth caching
+export type AbiResolution = ResolvedAbi | null | "failed";
+
+const asAbi = (value: unknown): unknown[] | null =>
+  Array.isArray(value) ? [...value] : null;
+
+/**
+ * Runs a provider's requests through its own queue, so a rate limited
+ * provider does not slow down the others.
+ */
+export function withRateLimit(
+  provider: AbiProvider,
+  requestsPerSecond: number
+): AbiProvider {
+  const queue = new pQueue({
+    concurrency: requestsPerSecond,
+    intervalCap: requestsPerSecond,
+    interval: 1000,
+  });
+
+  return {
+    name: provider.name,
+    fetchAbi: async (lookup) =>
+      (await queue.add(() => provider.fetchAbi(lookup))) ?? null,
+  };
+}
+
+// ABIs of the contracts this indexer is configured with
+const BUNDLED_ABIS: Record<string, Record<string, readonly unknown[]>> = {
+  mainnet: {
+    "0x48b6af7b12c71f09e2fc8af4855de4ff54e775ca": ServiceRegistryABI,
+    "0x2f1f7d38e4772884b88f3ecd8b6b9facdc319112": AgentRegistryABI,
+    "0x15bd56669f57192a97df41a2aa8f4403e9491776": ComponentRegistryABI,
+  },
+  gnosis: {
+    "0x9338b5153ae39bb89f50468e608ed9d764b755fd": ServiceRegistryABI,
+  },
+  base: {
+    "0x3c1ff68f5aa342d296d4dee4bb1cacca912d95fe": ServiceRegistryABI,
+  },
+};
+
+const LOCAL_ABI_DIRECTORY =
+  process.env.LOCAL_ABI_DIRECTORY || path.join(process.cwd(), "abis", "local");
+
+/**
+ * Checked-in ABIs, either bundled with the repo's abis/ files or stored as
+ * `<network>/<address>.json` in the local ABI directory. The JSON may be a
+ * bare ABI or a compiler artifact with an `abi` field.
+ */
+export const localAbiProvider: AbiProvider = {
+  name: "local",
+  fetchAbi: async ({ address, network }) => {
+    const bundled = BUNDLED_ABIS[network]?.[address];
+    if (bundled) return [...bundled];
+
+    const file = path.join(LOCAL_ABI_DIRECTORY, network, `${address}.json`);
+    if (!existsSync(file)) return null;
+
+    const content = JSON.parse(readFileSync(file, "utf8"));
+    return asAbi(Array.isArray(content) ? content : content?.abi);
+  },
+};
+
+export const sourcifyProvider: AbiProvider = {
+  name: "sourcify",
+  fetchAbi: async ({ address, chainId }) => {
+    try {
+      const { data } = await axios.get(
+        `https://sourcify.dev/server/v2/contract/${chainId}/${address}`,
+        { params: { fields: "abi" }, timeout: PROVIDER_TIMEOUT }
+      );
+      return asAbi(data?.abi);
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  },
+};
+
+/**
+ * Providers for Etherscan compatible `getabi` endpoints, which Blockscout
+ * instances also implement.
+ */
+export function createExplorerProvider(
+  name: string,
+  getEndpoint: (chainId: number) => string | null,
+  apiKey?: string
+): AbiProvider {
+  return {
+    name,
+    fetchAbi: async ({ address, chainId }) => {
+      const endpoint = getEndpoint(chainId);
+      if (!endpoint) return null;
+
+      const { data } = await axios.get(endpoint, {
+        params: {
+          module: "contract",
+          action: "getabi",
+          address,
+          ...(apiKey ? { apikey: apiKey } : {}),
+        },
+        timeout: PROVIDER_TIMEOUT,
+      });
+
+      if (data?.status === "1" && typeof data.result === "string") {
+        return asAbi(JSON.parse(data.result));
+      }
+
+      // Unverified contracts come back with status "0" and say so, other
+      // answers such as rate limits and invalid keys are failures
+      const reason = `${data?.message ?? ""} ${data?.result ?? ""}`.trim();
+      if (/not verified/i.test(reason)) return null;
+      throw new Error(`${name} answered: ${reason || "no result"}`);
+    },
+  };
+}
+
+const BLOCKSCOUT_ENDPOINTS: Record<number, string> = {
+  1: "https://eth.blockscout.com/api",
+  100: "https://gnosis.blockscout.com/api",
+  8453: "https://base.blockscout.com/api",
+};
+
+export const blockscoutProvider = createExplorerProvider(
+  "blockscout",
+  (chainId) => BLOCKSCOUT_ENDPOINTS[chainId] ?? null
+);
+
+export const etherscanProvider = createExplorerProvider(
+  "etherscan",
+  (chainId) => `https://api.etherscan.io/v2/api?chainid=${chainId}`,
+  process.env.ETHERSCAN_API_KEY
+);
+
+export const abidataProvider: AbiProvider = {
+  name: "abidata",
+  fetchAbi: async ({ address, network }) => {
+    const url = `https://abidata.net/${address}?network=${network}`;
+    console.log(`[ABI] Fetching ABI from: ${url}`);
+
+    try {
+      const response = await fetchWithRetry(url, MAX_RETRIES, INITIAL_TIMEOUT);
+      return response.data?.ok ? asAbi(response.data.abi) : null;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 400) {
+        console.log(
+          `[ABI] ${address} is invalid: ${
+            error.response?.data?.message || error.message
+          }`
+        );
+        return null;
+      }
+
+      handleFetchError(error, url, address);
+      throw error;
+    }
+  },
+};
+
+export const createDefaultAbiProviders = (): AbiProvider[] => [
+  localAbiProvider,
+  withRateLimit(sourcifyProvider, 10),
+  // The free Etherscan tier allows 5 requests per second
+  ...(process.env.ETHERSCAN_API_KEY
+    ? [withRateLimit(etherscanProvider, 4)]
+    : []),
+  withRateLimit(blockscoutProvider, 5),
+  withRateLimit(abidataProvider, 5),
+];
+
+let abiProviders = createDefaultAbiProviders();
+
+export const getAbiProviders = () => abiProviders;
+
+// Lets tests and scripts swap in their own providers
+export const setAbiProviders = (providers: AbiProvider[]) => {
+  abiProviders = providers;
+};
+
+/**
+ * Asks each provider in order for a contract's ABI, returning the first one
+ * found together with the name of the provider that supplied it.
+ */
+export async function resolveAbi(lookup: AbiLookup): Promise<AbiResolution> {
+  let failed = false;
+
+  for (const provider of abiProviders) {
+    try {
+      const abi = await provider.fetchAbi(lookup);
+      if (abi && abi.length > 0) {
+        console.log(
+          `[ABI] Found ABI for ${lookup.address} on ${lookup.network} via ${provider.name}`
+        );
+        return { abi, source: provider.name };
+      }
+    } catch (error) {
+      failed = true;
+      console.warn(
+        `[ABI] ${provider.name} failed for ${lookup.address} on ${lookup.network}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  if (failed) {
+    console.log(`[ABI] Could not ask every provider for ${lookup.address}`);
+    return "failed";
+  }
+
+  console.log(`[ABI] No provider has an ABI for ${lookup.address}`);
+  return null;
+}
+
+function handleFetchError(error: any, url: string, formattedAddress: string) {
+  if (isTimeoutError(error)) {
+    console.error(`[ABI] Final timeout for ${url} after all retries`);
+  }
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    const headers = error.response?.headers;
+
+    console.error(`[ABI] HTTP error fetching ABI for ${formattedAddress}:`, {
+      status,
+      headers: {
+        "retry-after": headers?.["retry-after"],
+        "ratelimit-reset": headers?.["ratelimit-reset"],
+        "ratelimit-remaining": headers?.["ratelimit-remaining"],
+      },
+      message: error.message,
+      url: error.config?.url,
+    });
+
+    if (status === 429) {
+      console.error(
+        `[ABI] Rate limit exceeded for ${formattedAddress} after all retries`
+      );
+    }
+  } else {
+    console.error(`[ABI] Error fetching ABI for ${formattedAddress}:`, {
+      error: error instanceof Error ? error.message : "Unknown error",
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+  }
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function getRetryDelay(error: any, attempt: number = 0): number {
+  const BASE_DELAY = 12000;
+  const MAX_DELAY = 60000;
+
+  if (axios.isAxiosError(error) && error.response?.headers) {
+    const headers = error.response.headers;
+
+    if (headers["retry-after"]) {
+      const retryAfter = headers["retry-after"];
+
+      if (isNaN(retryAfter as any)) {
+        const retryDate = new Date(retryAfter);
+        if (!isNaN(retryDate.getTime())) {
+          const delay = Math.max(0, retryDate.getTime() - Date.now());
+          console.log(
+            `[ABI] Retry-After (date): ${new Date(
+              retryDate
+            ).toISOString()}, delay: ${delay}ms`
+          );
+          return delay * 1.25;
+        }
+      }
+
+      const secondsDelay = parseInt(retryAfter) * 1000;
+      if (!isNaN(secondsDelay)) {
+        console.log(`[ABI] Retry-After (seconds): ${secondsDelay}ms`);
+        return secondsDelay * 1.25;
+      }
+    }
+
+    if (headers["ratelimit-reset"]) {
+      const resetTimestamp = parseInt(headers["ratelimit-reset"]) * 1000;
+      const delay = Math.max(0, resetTimestamp - Date.now());
+      console.log(`[ABI] Rate limit reset delay: ${delay}ms`);
+      return delay * 1.25;
+    }
+
+    if (error.response.status === 429) {
+      const exponentialDelay = Math.min(
+        MAX_DELAY,
+        BASE_DELAY * Math.pow(2, attempt) * (0.5 + Math.random() * 0.5)
+      );
+      console.log(
+        `[ABI] Rate limit exponential backoff delay: ${exponentialDelay}ms`
+      );
+      return exponentialDelay * 1.25;
+    }
+  }
+
+  // Default exponential backoff for other errors
+  const defaultDelay = Math.min(MAX_DELAY, BASE_DELAY * Math.pow(1.5, attempt));
+  console.log(`[ABI] Default delay: ${defaultDelay}ms`);
+  return defaultDelay;
+}
+
+function isTimeoutError(error: any): boolean {
+  return (
+    axios.isAxiosError(error) &&
+    (error.code === "ECONNABORTED" || error.message.includes("timeout"))
+  );
+}
+
+async function fetchWithRetry(
+  url: string,
+  retries = MAX_RETRIES,
+  timeout = INITIAL_TIMEOUT
+): Promise<any> {
+  let lastError: any;
+  let currentTimeout = timeout;
+
+  for (let i = 0; i < retries; i++) {
+    try {
+      const response = await axios.get(url, {
+        timeout: currentTimeout,
+        headers: {
+          Accept: "application/json",
+        },
+      });
+      return response;
+    } catch (error) {
+      lastError = error;
+
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 400) {
+          throw error;
+        }
+
+        const status = error.response?.status;
+        const headers = error.response?.headers;
+
+        const isTimeout =
+          error.code === "ECONNABORTED" || error.message.includes("timeout");
+        const isRateLimit = status === 429;
+
+        console.error(`[ABI] HTTP error fetching ABI from ${url}:`, {
+          status,
+          headers: {
+            "retry-after": headers?.["retry-after"],
+            "ratelimit-reset": headers?.["ratelimit-reset"],
+            "ratelimit-remaining": headers?.["ratelimit-remaining"],
+          },
+          message: error.message,
+          code: error.code,
+          url: error.config?.url,
+        });
+
+        if (!isTimeout && !isRateLimit) {
+          throw error;
+        }
+
+        const waitTime = isRateLimit
+          ? getRetryDelay(error, i)
+          : isTimeout
+            ? Math.min(currentTimeout * TIMEOUT_MULTIPLIER, MAX_TIMEOUT) -
+              currentTimeout
+            : INITIAL_RETRY_DELAY;
+
+        const remainingAttempts = retries - i - 1;
+
+        if (isTimeout) {
+          console.log(
+            `[ABI] Timeout fetching ABI from ${url}. ` +
+              `Attempt ${i + 1}/${retries}. ` +
+              `Increasing timeout from ${currentTimeout}ms to ${Math.min(
+                currentTimeout * TIMEOUT_MULTIPLIER,
+                MAX_TIMEOUT
+              )}ms. ` +
+              `(${remainingAttempts} attempts remaining)`
+          );
+          currentTimeout = Math.min(
+            currentTimeout * TIMEOUT_MULTIPLIER,
+            MAX_TIMEOUT
+          );
+        } else if (isRateLimit) {
+          console.log(
+            `[ABI] Rate limited by ${new URL(url).host}. Attempt ${i + 1}/${retries}. ` +
+              `Waiting ${Math.round(waitTime / 1000)}s... ` +
+              `(${remainingAttempts} attempts remaining)`
+          );
+        } else {
+          console.log(
+            `[ABI] Error fetching ABI from ${url}. ` +
+              `Attempt ${i + 1}/${retries}. ` +
+              `Status: ${status}. Error: ${error.message}. ` +
+              `Waiting ${Math.round(waitTime / 1000)}s... ` +
+              `(${remainingAttempts} attempts remaining)`
+          );
+        }
+
+        await wait(waitTime);
+        continue;
+      } else {
+        // Non-Axios error
+        console.error(`[ABI] Non-HTTP error fetching ABI from ${url}:`, {
+          error:
+            error instanceof Error
+              ? {
+                  message: error.message,
+                  stack: error.stack,
+                  name: error.name,
+                }
+              : "Unknown error type",
+          type: typeof error,
+        });
+      }
+    }
+  }
+
+  const errorDetails =
+    lastError instanceof Error
+      ? {
+          message: lastError.message,
+          stack: lastError.stack,
+          name: lastError.name,
+          type: typeof lastError,
+          isAxiosError: axios.isAxiosError(lastError),
+          status: axios.isAxiosError(lastError)
+            ? lastError.response?.status
+            : undefined,
+          code: axios.isAxiosError(lastError) ? lastError.code : undefined,
+        }
+      : {
+          error: lastError,
+        };
+
+  console.error(
+    `[ABI] Failed after ${retries} retries for ${url}. Error details:`,
+    errorDetails
+  );
+
+  throw new Error(
+    `Failed after ${retries} retries. Error: ${
+      lastError instanceof Error
+        ? lastError.message
+        : JSON.stringify(errorDetails)
+    }`
+  );
+}
@@ -0,0 +1,367 @@
+import { LruCache } from "./lruCache";
+import { executeQuery } from "./postgres";
+import { SelectorCollision } from "./proxies";
+import { getAbiSelectors, learnAbiSignatures } from "./signatures";
+
+export interface StoredAbi {
+  address: string;
+  chain: string;
+  abi: unknown[];
+  source: string | null;
+  isProxy: boolean;
+  implementationAddress: string | null;
+  // Addresses whose ABIs are merged with this one for decoding
+  mergedWith: string[] | null;
+  selectorCollisions: SelectorCollision[] | null;
+  fetchedAt: Date;
+}
+
+export interface ProxyMerge {
+  implementationAddress: string | null;
+  mergedWith: string[] | null;
+  selectorCollisions: SelectorCollision[] | null;
+}
+
+// Contracts are looked up on every decode, including the ones without a
+// stored ABI. Only this process writes contract_abi, so writes keep it fresh.
+const storedAbiCache = new LruCache<string, StoredAbi | null>(10_000);
+
+const getStoredAbiKey = (address: string, chain: string) =>
+  `${address.toLowerCase()}-${chain}`;
+
+/**
+ * Reads a contract's ABI from the contract_abi table. The ABI is stored as
+ * jsonb, so it comes back already parsed.
+ */
+export async function getStoredAbi(
+  address: string,
+  chain: string
+): Promise<StoredAbi | null> {
+  const key = getStoredAbiKey(address, chain);
+  if (storedAbiCache.has(key)) return storedAbiCache.get(key) ?? null;
+
+  try {
+    const result = await executeQuery((client) =>
+      client.query(
+        `SELECT address, chain, abi, source, is_proxy, implementation_address,
+           merged_with, selector_collisions, fetched_at
+         FROM contract_abi
+         WHERE address = $1 AND chain = $2
+         LIMIT 1`,
+        [address.toLowerCase(), chain]
+      )
+    );
+
+    const row = result.rows[0];
+    const stored: StoredAbi | null =
+      row && Array.isArray(row.abi)
+        ? {
+            address: row.address,
+            chain: row.chain,
+            abi: row.abi,
+            source: row.source,
+            isProxy: row.is_proxy,
+            implementationAddress: row.implementation_address,
+            mergedWith: row.merged_with,
+            selectorCollisions: row.selector_collisions,
+            fetchedAt: row.fetched_at,
+          }
+        : null;
+
+    storedAbiCache.set(key, stored);
+    return stored;
+  } catch (error) {
+    console.error(`[ABI] Error reading stored ABI for ${address}-${chain}:`, {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return null;
+  }
+}
+
+/**
+ * Stores a contract's own ABI, linked to its implementation when it is a
+ * proxy, and adds its selectors to the selector table.
+ */
+export async function storeContractAbi({
+  address,
+  chain,
+  abi,
+  source,
+  isProxy,
+  implementationAddress,
+  mergedWith,
+  selectorCollisions,
+}: {
+  address: string;
+  chain: string;
+  abi: unknown[];
+  source: string;
+  isProxy: boolean;
+} & ProxyMerge): Promise<boolean> {
+  try {
+    await executeQuery((client) =>
+      client.query(
+        `INSERT INTO contract_abi (
+          address,
+          chain,
+          abi,
+          source,
+          is_proxy,
+          implementation_address,
+          merged_with,
+          selector_collisions,
+          fetched_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
+        ON CONFLICT (address, chain) DO UPDATE SET
+          abi = EXCLUDED.abi,
+          source = EXCLUDED.source,
+          is_proxy = EXCLUDED.is_proxy,
+          implementation_address = EXCLUDED.implementation_address,
+          merged_with = EXCLUDED.merged_with,
+          selector_collisions = EXCLUDED.selector_collisions,
+          fetched_at = NOW()`,
+        [
+          address.toLowerCase(),
+          chain,
+          JSON.stringify(abi),
+          source,
+          isProxy,
+          implementationAddress?.toLowerCase() ?? null,
+          mergedWith,
+          selectorCollisions ? JSON.stringify(selectorCollisions) : null,
+        ]
+      )
+    );
+  } catch (error) {
+    console.error(`[ABI] Error storing ABI for ${address}-${chain}:`, {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return false;
+  }
+
+  storedAbiCache.set(getStoredAbiKey(address, chain), {
+    address: address.toLowerCase(),
+    chain,
+    abi,
+    source,
+    isProxy,
+    implementationAddress: implementationAddress?.toLowerCase() ?? null,
+    mergedWith,
+    selectorCollisions,
+    fetchedAt: new Date(),
+  });
+
+  await storeSelectors(abi);
+  return true;
+}
+
+/**
+ * Points a stored proxy at the implementation it currently delegates to, and
+ * notes the ABIs merged with its own and the selectors that collided.
+ */
+export async function updateProxyMerge(
+  address: string,
+  chain: string,
+  { implementationAddress, mergedWith, selectorCollisions }: ProxyMerge
+) {
+  try {
+    await executeQuery((client) =>
+      client.query(
+        `UPDATE contract_abi
+         SET implementation_address = $3,
+           merged_with = $4,
+           selector_collisions = $5
+         WHERE address = $1 AND chain = $2`,
+        [
+          address.toLowerCase(),
+          chain,
+          implementationAddress?.toLowerCase() ?? null,
+          mergedWith,
+          selectorCollisions ? JSON.stringify(selectorCollisions) : null,
+        ]
+      )
+    );
+
+    const key = getStoredAbiKey(address, chain);
+    const cached = storedAbiCache.get(key);
+    if (cached) {
+      storedAbiCache.set(key, {
+        ...cached,
+        implementationAddress: implementationAddress?.toLowerCase() ?? null,
+        mergedWith,
+        selectorCollisions,
+      });
+    }
+  } catch (error) {
+    console.error(`[ABI] Error noting ABI merge for ${address}-${chain}:`, {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+export interface ImplementationObservation {
+  implementationAddress: string;
+  blockNumber: number;
+  source: string;
+}
+
+/**
+ * Records the implementation a proxy delegated to at a block, either from
+ * an upgrade event or read from the chain. Upgrade events take precedence
+ * over reads at the same block.
+ */
+export async function recordImplementation({
+  address,
+  chain,
+  blockNumber,
+  implementationAddress,
+  source,
+  transactionHash = null,
+}: {
+  address: string;
+  chain: string;
+  blockNumber: number;
+  implementationAddress: string;
+  source: "event" | "read";
+  transactionHash?: string | null;
+}) {
+  try {
+    await executeQuery((client) =>
+      client.query(
+        `INSERT INTO proxy_implementation (
+          address,
+          chain,
+          block_number,
+          implementation_address,
+          source,
+          transaction_hash
+        ) VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (address, chain, block_number) DO UPDATE SET
+          implementation_address = EXCLUDED.implementation_address,
+          source = EXCLUDED.source,
+          transaction_hash = EXCLUDED.transaction_hash
+        WHERE proxy_implementation.source <> 'event'`,
+        [
+          address.toLowerCase(),
+          chain,
+          blockNumber,
+          implementationAddress.toLowerCase(),
+          source,
+          transactionHash,
+        ]
+      )
+    );
+  } catch (error) {
+    console.error(
+      `[IMP] Error recording implementation of ${address}-${chain} at ${blockNumber}:`,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+  }
+}
+
+/**
+ * Returns the closest recorded implementations of a proxy at or before a
+ * block, and after it.
+ */
+export async function getImplementationObservations(
+  address: string,
+  chain: string,
+  blockNumber: number
+): Promise<{
+  previous: ImplementationObservation | null;
+  next: ImplementationObservation | null;
+}> {
+  try {
+    const result = await executeQuery((client) =>
+      client.query(
+        `(SELECT implementation_address, block_number, source
+          FROM proxy_implementation
+          WHERE address = $1 AND chain = $2 AND block_number <= $3
+          ORDER BY block_number DESC
+          LIMIT 1)
+         UNION ALL
+         (SELECT implementation_address, block_number, source
+          FROM proxy_implementation
+          WHERE address = $1 AND chain = $2 AND block_number > $3
+          ORDER BY block_number ASC
+          LIMIT 1)`,
+        [address.toLowerCase(), chain, blockNumber]
+      )
+    );
+
+    const observations = result.rows.map((row): ImplementationObservation => ({
+      implementationAddress: row.implementation_address,
+      blockNumber: Number(row.block_number),
+      source: row.source,
+    }));
+
+    return {
+      previous: observations.find((o) => o.blockNumber <= blockNumber) ?? null,
+      next: observations.find((o) => o.blockNumber > blockNumber) ?? null,
+    };
+  } catch (error) {
+    console.error(
+      `[IMP] Error reading implementation history of ${address}-${chain}:`,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+    return { previous: null, next: null };
+  }
+}
+
+async function storeSelectors(abi: unknown[]) {
+  const selectors = getAbiSelectors(abi);
+  if (selectors.length === 0) return;
+
+  try {
+    await executeQuery((client) =>
+      client.query(
+        `INSERT INTO selector (selector, kind, signature, name, abi_item)
+         SELECT * FROM unnest($1::text[], $2::text[], $3::text[], $4::text[], $5::jsonb[])
+         ON CONFLICT (kind, selector, signature) DO NOTHING`,
+        [
+          selectors.map(({ selector }) => selector),
+          selectors.map(({ kind }) => kind),
+          selectors.map(({ signature }) => signature),
+          selectors.map(({ name }) => name),
+          selectors.map(({ item }) => JSON.stringify(item)),
+        ]
+      )
+    );
+  } catch (error) {
+    console.error(`[ABI] Error storing selectors:`, {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+let storedSelectorsLoad: Promise<void> | null = null;
+
+/**
+ * Seeds the in-memory signature database with every selector stored by
+ * earlier runs, so contracts without an ABI can be decoded right away. The
+ * table is only read once, however many setup handlers call this.
+ */
+export function loadStoredSelectors(): Promise<void> {
+  storedSelectorsLoad ??= readStoredSelectors();
+  return storedSelectorsLoad;
+}
+
+async function readStoredSelectors() {
+  try {
+    const result = await executeQuery((client) =>
+      client.query(
+        `SELECT abi_item FROM selector WHERE kind IN ('function', 'event')`
+      )
+    );
+
+    learnAbiSignatures(
+      result.rows.map((row) => row.abi_item),
+      "selector-table"
+    );
+    console.log(`[SIG] Loaded ${result.rows.length} stored selectors`);
+  } catch (error) {
+    console.error(`[SIG] Error loading stored selectors:`, {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
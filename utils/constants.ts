@@ -7,10 +7,8 @@ export const SIGNATURES = {
     TRANSFER_FROM: "0x23b872dd", // transferFrom(address,address,uint256)
   },
 
-  // ERC721 Events and Functions
+  // ERC721 Functions
   ERC721: {
-    TRANSFER_EVENT:
-      "0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925",
     TRANSFER: "0x42842e0e", // safeTransferFrom(address,address,uint256)
     TRANSFER_WITH_DATA: "0xb88d4fde", // safeTransferFrom(address,address,uint256,bytes)
   },
@@ -29,6 +27,12 @@ export const SIGNATURES = {
       "0x442e715f626346e8c54381002da614f62bee8d27386535b2521ec8540898556e",
   },
 
+  // Safe and MultiSend Functions
+  SAFE: {
+    EXEC_TRANSACTION: "0x6a761202", // execTransaction(address,uint256,bytes,uint8,uint256,uint256,uint256,address,address,bytes)
+    MULTI_SEND: "0x8d80ff0a", // multiSend(bytes)
+  },
+
   // Proxy Related
   PROXY: {
     FUNCTION: "0x4f1ef286",
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  fpmmBuy,
+  fpmmFundingAdded,
+  fpmmFundingRemoved,
+  fpmmSell,
+  payoutRedemption,
+} from "./fpmm";
+
+const TRADER = "0x9A8e3d0F4C4e7C1F2f5B8f1a3b0c6D6A2e7f8C91";
+const MARKET = "0x7b2fd6ac4f3e2a1c5d3c8a4e6f0b9d8c7e6a5b43";
+
+const TRADER_TOPIC =
+  "0x0000000000000000000000009a8e3d0f4c4e7c1f2f5b8f1a3b0c6d6a2e7f8c91";
+
+describe("FPMM", () => {
+  it("decodes FPMMBuy", () => {
+    expect(
+      fpmmBuy.decode({
+        address: MARKET,
+        topics: [
+          "0x4f62630f51608fc8a7603a9391a5101e58bd7c276139366fc107dc3b67c3dcf8",
+          TRADER_TOPIC,
+          "0x0000000000000000000000000000000000000000000000000000000000000001",
+        ],
+        data: "0x0000000000000000000000000000000000000000000000000de0b6b3a764000000000000000000000000000000000000000000000000000000470de4df82000000000000000000000000000000000000000000000000000019ac8532c2790000",
+      })
+    ).toEqual({
+      buyer: TRADER,
+      investmentAmount: 1000000000000000000n,
+      feeAmount: 20000000000000000n,
+      outcomeIndex: 1n,
+      outcomeTokensBought: 1850000000000000000n,
+    });
+  });
+
+  it("decodes FPMMSell", () => {
+    expect(
+      fpmmSell.decode({
+        address: MARKET,
+        topics: [
+          "0xadcf2a240ed9300d681d9a3f5382b6c1beed1b7e46643e0c7b42cbe6e2d766b4",
+          TRADER_TOPIC,
+          "0x0000000000000000000000000000000000000000000000000000000000000000",
+        ],
+        data: "0x00000000000000000000000000000000000000000000000006f05b59d3b20000000000000000000000000000000000000000000000000000002386f26fc100000000000000000000000000000000000000000000000000000c7d713b49da0000",
+      })
+    ).toEqual({
+      seller: TRADER,
+      returnAmount: 500000000000000000n,
+      feeAmount: 10000000000000000n,
+      outcomeIndex: 0n,
+      outcomeTokensSold: 900000000000000000n,
+    });
+  });
+
+  it("decodes FPMMFundingAdded", () => {
+    expect(
+      fpmmFundingAdded.decode({
+        address: MARKET,
+        topics: [
+          "0xec2dc3e5a3bb9aa0a1deb905d2bd23640d07f107e6ceb484024501aad964a951",
+          TRADER_TOPIC,
+        ],
+        data: "0x00000000000000000000000000000000000000000000000000000000000000400000000000000000000000000000000000000000000000000000000000000005000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000000000050000000000000000000000000000000000000000000000000000000000000005",
+      })
+    ).toEqual({ funder: TRADER, amountsAdded: [5n, 5n], sharesMinted: 5n });
+  });
+
+  it("decodes FPMMFundingRemoved", () => {
+    expect(
+      fpmmFundingRemoved.decode({
+        address: MARKET,
+        topics: [
+          "0x8b4b2c8ebd04c47fc8bce136a85df9b93fcb1f47c8aa296457d4391519d190e7",
+          TRADER_TOPIC,
+        ],
+        data: "0x000000000000000000000000000000000000000000000000000000000000006000000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000005000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000000000040000000000000000000000000000000000000000000000000000000000000006",
+      })
+    ).toEqual({
+      funder: TRADER,
+      amountsRemoved: [4n, 6n],
+      collateralRemovedFromFeePool: 1n,
+      sharesBurnt: 5n,
+    });
+  });
+
+  it("rejects an FPMMBuy without its indexed outcome", () => {
+    expect(
+      fpmmBuy.decode({
+        address: MARKET,
+        topics: [
+          "0x4f62630f51608fc8a7603a9391a5101e58bd7c276139366fc107dc3b67c3dcf8",
+          TRADER_TOPIC,
+        ],
+        data: "0x",
+      })
+    ).toBeNull();
+  });
+});
+
+describe("ConditionalTokens", () => {
+  it("decodes PayoutRedemption", () => {
+    expect(
+      payoutRedemption.decode({
+        address: "0xceafdd6bc0bef976fdcd1112955828e00543c0ce",
+        topics: [
+          "0x2682012a4a4f1973119f1c9b90745d1bd91fa2bab387344f044cb3586864d18d",
+          TRADER_TOPIC,
+          "0x000000000000000000000000e91d153e0b41518a2ce8dd3d7944fa863463a97d",
+          "0x0000000000000000000000000000000000000000000000000000000000000000",
+        ],
+        data: "0xabababababababababababababababababababababababababababababababab00000000000000000000000000000000000000000000000000000000000000600000000000000000000000000000000000000000000000001bc16d674ec80000000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000000000010000000000000000000000000000000000000000000000000000000000000002",
+      })
+    ).toEqual({
+      redeemer: TRADER,
+      collateralToken: "0xe91D153E0b41518A2Ce8Dd3D7944Fa863463a97d",
+      parentCollectionId: `0x${"00".repeat(32)}`,
+      conditionId: `0x${"ab".repeat(32)}`,
+      indexSets: [1n, 2n],
+      payout: 2000000000000000000n,
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { parseAbi } from "viem";
+
+import { DecoderArgs, eventDecoder } from "./registry";
+
+// Fixed product market maker used by the prediction market trading agents
+const FPMM_ABI = parseAbi([
+  "event FPMMBuy(address indexed buyer, uint256 investmentAmount, uint256 feeAmount, uint256 indexed outcomeIndex, uint256 outcomeTokensBought)",
+  "event FPMMSell(address indexed seller, uint256 returnAmount, uint256 feeAmount, uint256 indexed outcomeIndex, uint256 outcomeTokensSold)",
+  "event FPMMFundingAdded(address indexed funder, uint256[] amountsAdded, uint256 sharesMinted)",
+  "event FPMMFundingRemoved(address indexed funder, uint256[] amountsRemoved, uint256 collateralRemovedFromFeePool, uint256 sharesBurnt)",
+]);
+
+// Gnosis conditional tokens, where winning FPMM positions are redeemed
+const CONDITIONAL_TOKENS_ABI = parseAbi([
+  "event PayoutRedemption(address indexed redeemer, address indexed collateralToken, bytes32 indexed parentCollectionId, bytes32 conditionId, uint256[] indexSets, uint256 payout)",
+]);
+
+export const fpmmBuy = eventDecoder("FPMM", FPMM_ABI, "FPMMBuy");
+export const fpmmSell = eventDecoder("FPMM", FPMM_ABI, "FPMMSell");
+export const fpmmFundingAdded = eventDecoder(
+  "FPMM",
+  FPMM_ABI,
+  "FPMMFundingAdded"
+);
+export const fpmmFundingRemoved = eventDecoder(
+  "FPMM",
+  FPMM_ABI,
+  "FPMMFundingRemoved"
+);
+export const payoutRedemption = eventDecoder(
+  "ConditionalTokens",
+  CONDITIONAL_TOKENS_ABI,
+  "PayoutRedemption"
+);
+
+export type FPMMBuyArgs = DecoderArgs<typeof fpmmBuy>;
+export type FPMMSellArgs = DecoderArgs<typeof fpmmSell>;
+export type PayoutRedemptionArgs = DecoderArgs<typeof payoutRedemption>;
+
+export const fpmmDecoders = [
+  fpmmBuy,
+  fpmmSell,
+  fpmmFundingAdded,
+  fpmmFundingRemoved,
+  payoutRedemption,
+];
@@ -0,0 +1,54 @@
+import { convertBigIntsToStrings } from "..";
+import { fpmmDecoders } from "./fpmm";
+import { mechDecoders } from "./mech";
+import { proxyDecoders } from "./proxy";
+import { DecoderRegistry, RawLog } from "./registry";
+import { safeDecoders } from "./safe";
+import { swapDecoders } from "./swap";
+import { tokenDecoders } from "./token";
+
+export * from "./registry";
+export * from "./fpmm";
+export * from "./mech";
+export * from "./proxy";
+export * from "./safe";
+export * from "./swap";
+export * from "./token";
+
+/**
+ * Decoders for the protocols agents commonly interact with. These events are
+ * decoded without looking up the emitting contract's ABI. Add a protocol by
+ * registering its decoders here.
+ */
+export const decoderRegistry = new DecoderRegistry().register(
+  ...tokenDecoders,
+  ...fpmmDecoders,
+  ...safeDecoders,
+  ...mechDecoders,
+  ...swapDecoders,
+  ...proxyDecoders
+);
+
+/**
+ * Decodes a log with the registered decoders, in the same shape as logs
+ * decoded from a contract ABI. Returns null for unknown events.
+ */
+export function decodeKnownLog(log: RawLog) {
+  const result = decoderRegistry.decode(log);
+  if (!result) return null;
+
+  return {
+    contractAddress: log.address.toLowerCase(),
+    eventSignature: log.topics[0],
+    decoded: {
+      name: result.decoder.name,
+      protocol: result.decoder.protocol,
+      args: convertBigIntsToStrings(result.args),
+      signature: log.topics[0],
+      source: "registry",
+      confidence: 1,
+    },
+    rawData: log.data,
+    rawTopics: log.topics,
+  };
+}
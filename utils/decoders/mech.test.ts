@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+
+import { mechDeliver, mechRequest } from "./mech";
+
+const MECH = "0x77af31de935740567cf4ff1986d04b2c964a786a";
+
+describe("Mech", () => {
+  it("decodes Request", () => {
+    expect(
+      mechRequest.decode({
+        address: MECH,
+        topics: [
+          "0x4bda649efe6b98b0f9c1d5e859c29e20910f45c66dabfe6fad4a4881f7faf9cc",
+          "0x0000000000000000000000009a8e3d0f4c4e7c1f2f5b8f1a3b0c6d6a2e7f8c91",
+        ],
+        data: "0x000000000000000000000000000000000000000000000000000000000000007b000000000000000000000000000000000000000000000000000000000000004000000000000000000000000000000000000000000000000000000000000000201212121212121212121212121212121212121212121212121212121212121212",
+      })
+    ).toEqual({
+      sender: "0x9A8e3d0F4C4e7C1F2f5B8f1a3b0c6D6A2e7f8C91",
+      requestId: 123n,
+      data: `0x${"12".repeat(32)}`,
+    });
+  });
+
+  it("decodes Deliver", () => {
+    expect(
+      mechDeliver.decode({
+        address: MECH,
+        topics: [
+          "0x0cd979445339c62199996f208428d987b1cea24d18e62b79ec24d94b636e8b70",
+          "0x0000000000000000000000007b2fd6ac4f3e2a1c5d3c8a4e6f0b9d8c7e6a5b43",
+        ],
+        data: "0x000000000000000000000000000000000000000000000000000000000000007b000000000000000000000000000000000000000000000000000000000000004000000000000000000000000000000000000000000000000000000000000000203434343434343434343434343434343434343434343434343434343434343434",
+      })
+    ).toEqual({
+      sender: "0x7B2Fd6Ac4f3e2A1c5D3C8A4e6F0b9d8c7E6a5B43",
+      requestId: 123n,
+      data: `0x${"34".repeat(32)}`,
+    });
+  });
+
+  it("rejects a Request with an extra indexed topic", () => {
+    expect(
+      mechRequest.decode({
+        address: MECH,
+        topics: [
+          "0x4bda649efe6b98b0f9c1d5e859c29e20910f45c66dabfe6fad4a4881f7faf9cc",
+          "0x0000000000000000000000009a8e3d0f4c4e7c1f2f5b8f1a3b0c6d6a2e7f8c91",
+          "0x000000000000000000000000000000000000000000000000000000000000007b",
+        ],
+        data: "0x",
+      })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,17 @@
+import { parseAbi } from "viem";
+
+import { DecoderArgs, eventDecoder } from "./registry";
+
+// Legacy AgentMech events, `data` holds the IPFS hash of the prompt or result
+const MECH_ABI = parseAbi([
+  "event Request(address indexed sender, uint256 requestId, bytes data)",
+  "event Deliver(address indexed sender, uint256 requestId, bytes data)",
+]);
+
+export const mechRequest = eventDecoder("Mech", MECH_ABI, "Request");
+export const mechDeliver = eventDecoder("Mech", MECH_ABI, "Deliver");
+
+export type MechRequestArgs = DecoderArgs<typeof mechRequest>;
+export type MechDeliverArgs = DecoderArgs<typeof mechDeliver>;
+
+export const mechDecoders = [mechRequest, mechDeliver];
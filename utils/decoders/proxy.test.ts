@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+
+import { proxyBeaconUpgraded, proxyUpgraded } from "./proxy";
+
+const PROXY = "0x8f8ef111b67c04eb1641f5ff19ee54cda062f163";
+
+describe("Proxy", () => {
+  it("decodes Upgraded", () => {
+    expect(
+      proxyUpgraded.decode({
+        address: PROXY,
+        topics: [
+          "0xbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b",
+          "0x0000000000000000000000007b2fd6ac4f3e2a1c5d3c8a4e6f0b9d8c7e6a5b43",
+        ],
+        data: "0x",
+      })
+    ).toEqual({ implementation: "0x7B2Fd6Ac4f3e2A1c5D3C8A4e6F0b9d8c7E6a5B43" });
+  });
+
+  it("decodes BeaconUpgraded", () => {
+    expect(
+      proxyBeaconUpgraded.decode({
+        address: PROXY,
+        topics: [
+          "0x1cf3b03a6cf19fa2baba4df148e9dcabedea7f8a5c07840e207e5c089be95d3e",
+          "0x0000000000000000000000009a8e3d0f4c4e7c1f2f5b8f1a3b0c6d6a2e7f8c91",
+        ],
+        data: "0x",
+      })
+    ).toEqual({ beacon: "0x9A8e3d0F4C4e7C1F2f5B8f1a3b0c6D6A2e7f8C91" });
+  });
+
+  it("rejects an Upgraded event with an unindexed implementation", () => {
+    expect(
+      proxyUpgraded.decode({
+        address: PROXY,
+        topics: [
+          "0xbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b",
+        ],
+        data: "0x0000000000000000000000007b2fd6ac4f3e2a1c5d3c8a4e6f0b9d8c7e6a5b43",
+      })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,21 @@
+import { parseAbi } from "viem";
+
+import { DecoderArgs, eventDecoder } from "./registry";
+
+// EIP-1967 upgrade events, emitted by the proxy itself
+const PROXY_ABI = parseAbi([
+  "event Upgraded(address indexed implementation)",
+  "event BeaconUpgraded(address indexed beacon)",
+]);
+
+export const proxyUpgraded = eventDecoder("Proxy", PROXY_ABI, "Upgraded");
+export const proxyBeaconUpgraded = eventDecoder(
+  "Proxy",
+  PROXY_ABI,
+  "BeaconUpgraded"
+);
+
+export type ProxyUpgradedArgs = DecoderArgs<typeof proxyUpgraded>;
+export type ProxyBeaconUpgradedArgs = DecoderArgs<typeof proxyBeaconUpgraded>;
+
+export const proxyDecoders = [proxyUpgraded, proxyBeaconUpgraded];
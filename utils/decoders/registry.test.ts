@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+
+import { DecoderRegistry } from "./registry";
+import { tokenDecoders } from "./token";
+
+const registry = new DecoderRegistry().register(...tokenDecoders);
+
+const TRANSFER_TOPIC =
+  "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+const ALICE_TOPIC =
+  "0x0000000000000000000000009a8e3d0f4c4e7c1f2f5b8f1a3b0c6d6a2e7f8c91";
+const BOB_TOPIC =
+  "0x0000000000000000000000007b2fd6ac4f3e2a1c5d3c8a4e6f0b9d8c7e6a5b43";
+const TOKEN = "0xe91d153e0b41518a2ce8dd3d7944fa863463a97d";
+
+describe("DecoderRegistry", () => {
+  it("tells ERC20 and ERC721 Transfers apart by their topic count", () => {
+    const erc20 = registry.decode({
+      address: TOKEN,
+      topics: [TRANSFER_TOPIC, ALICE_TOPIC, BOB_TOPIC],
+      data: "0x00000000000000000000000000000000000000000000000014d1120d7b160000",
+    });
+    const erc721 = registry.decode({
+      address: TOKEN,
+      topics: [
+        TRANSFER_TOPIC,
+        ALICE_TOPIC,
+        BOB_TOPIC,
+        "0x000000000000000000000000000000000000000000000000000000000000002a",
+      ],
+      data: "0x",
+    });
+
+    expect(erc20?.decoder.protocol).toBe("ERC20");
+    expect(erc721?.decoder.protocol).toBe("ERC721");
+  });
+
+  it("returns null when no decoder matches the topic count", () => {
+    expect(
+      registry.decode({
+        address: TOKEN,
+        topics: [TRANSFER_TOPIC, ALICE_TOPIC],
+        data: "0x",
+      })
+    ).toBeNull();
+  });
+
+  it("returns null for unknown events", () => {
+    expect(
+      registry.decode({
+        address: TOKEN,
+        topics: [`0x${"00".repeat(32)}`],
+        data: "0x",
+      })
+    ).toBeNull();
+  });
+
+  it("is case insensitive on topic0", () => {
+    expect(
+      registry.get(TRANSFER_TOPIC.toUpperCase().replace("0X", "0x"))
+    ).toHaveLength(2);
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  Abi,
+  AbiEvent,
+  ContractEventArgsFromTopics,
+  ContractEventName,
+  decodeEventLog,
+  getAbiItem,
+  Hex,
+  toEventSelector,
+} from "viem";
+
+export interface RawLog {
+  address: string;
+  data: Hex;
+  topics: readonly Hex[];
+}
+
+export interface LogDecoder<TArgs = Record<string, unknown>> {
+  protocol: string;
+  name: string;
+  topic0: Hex;
+  // Returns null when the log only shares the topic, e.g. ERC20 and ERC721
+  // Transfer events which differ in their indexed arguments
+  decode: (log: RawLog) => TArgs | null;
+}
+
+export type DecoderArgs<T> = T extends LogDecoder<infer TArgs> ? TArgs : never;
+
+/**
+ * Builds a decoder for one event of an ABI. The log must carry exactly as
+ * many topics as the event has indexed inputs, so events sharing a topic0
+ * can be told apart.
+ */
+export function eventDecoder<
+  const abi extends Abi,
+  eventName extends ContractEventName<abi>,
+>(
+  protocol: string,
+  abi: abi,
+  eventName: eventName
+): LogDecoder<ContractEventArgsFromTopics<abi, eventName, true>> {
+  const event = getAbiItem({
+    abi: abi as Abi,
+    name: eventName as string,
+  }) as AbiEvent;
+  const topicCount = 1 + event.inputs.filter((input) => input.indexed).length;
+
+  const topic0 = toEventSelector(event);
+
+  return {
+    protocol,
+    name: event.name,
+    topic0,
+    decode: (log) => {
+      if (
+        log.topics[0]?.toLowerCase() !== topic0 ||
+        log.topics.length !== topicCount
+      ) {
+        return null;
+      }
+
+      const { args } = decodeEventLog({
+        abi: [event],
+        data: log.data,
+        topics: log.topics as [Hex, ...Hex[]],
+      });
+      return args as ContractEventArgsFromTopics<abi, eventName, true>;
+    },
+  };
+}
+
+export class DecoderRegistry {
+  private decoders = new Map<string, LogDecoder<unknown>[]>();
+
+  register(...decoders: LogDecoder<any>[]) {
+    for (const decoder of decoders) {
+      const topic0 = decoder.topic0.toLowerCase();
+      this.decoders.set(topic0, [
+        ...(this.decoders.get(topic0) ?? []),
+        decoder,
+      ]);
+    }
+    return this;
+  }
+
+  get(topic0: string | undefined) {
+    return topic0 ? (this.decoders.get(topic0.toLowerCase()) ?? []) : [];
+  }
+
+  /**
+   * Tries each decoder registered for the log's topic0 in order, returning
+   * the first match.
+   */
+  decode(log: RawLog) {
+    for (const decoder of this.get(log.topics[0])) {
+      try {
+        const args = decoder.decode(log);
+        if (args) return { decoder, args };
+      } catch (error) {
+        console.error(
+          `[DECODE] ${decoder.protocol} ${decoder.name} decoder failed for ${log.address}:`,
+          error
+        );
+      }
+    }
+    return null;
+  }
+}
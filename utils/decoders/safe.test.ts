@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  safeExecutionFailure,
+  safeExecutionSuccess,
+  safeReceived,
+} from "./safe";
+
+const SAFE = "0x7b2fd6ac4f3e2a1c5d3c8a4e6f0b9d8c7e6a5b43";
+
+describe("Safe", () => {
+  it("decodes ExecutionSuccess", () => {
+    expect(
+      safeExecutionSuccess.decode({
+        address: SAFE,
+        topics: [
+          "0x442e715f626346e8c54381002da614f62bee8d27386535b2521ec8540898556e",
+        ],
+        data: "0xcdcdcdcdcdcdcdcdcdcdcdcdcdcdcdcdcdcdcdcdcdcdcdcdcdcdcdcdcdcdcdcd0000000000000000000000000000000000000000000000000000000000000000",
+      })
+    ).toEqual({ txHash: `0x${"cd".repeat(32)}`, payment: 0n });
+  });
+
+  it("decodes ExecutionFailure", () => {
+    expect(
+      safeExecutionFailure.decode({
+        address: SAFE,
+        topics: [
+          "0x23428b18acfb3ea64b08dc0c1d296ea9c09702c09083ca5272e64d115b687d23",
+        ],
+        data: "0xefefefefefefefefefefefefefefefefefefefefefefefefefefefefefefefef0000000000000000000000000000000000000000000000000000000000000000",
+      })
+    ).toEqual({ txHash: `0x${"ef".repeat(32)}`, payment: 0n });
+  });
+
+  it("decodes SafeReceived", () => {
+    expect(
+      safeReceived.decode({
+        address: SAFE,
+        topics: [
+          "0x3d0ce9bfc3ed7d6862dbb28b2dea94561fe714a1b4d019aa8af39730d1ad7c3d",
+          "0x0000000000000000000000009a8e3d0f4c4e7c1f2f5b8f1a3b0c6d6a2e7f8c91",
+        ],
+        data: "0x000000000000000000000000000000000000000000000000002386f26fc10000",
+      })
+    ).toEqual({
+      sender: "0x9A8e3d0F4C4e7C1F2f5B8f1a3b0c6D6A2e7f8C91",
+      value: 10000000000000000n,
+    });
+  });
+
+  it("rejects SafeReceived from Safes before 1.3, with an unindexed sender", () => {
+    expect(
+      safeReceived.decode({
+        address: SAFE,
+        topics: [
+          "0x3d0ce9bfc3ed7d6862dbb28b2dea94561fe714a1b4d019aa8af39730d1ad7c3d",
+        ],
+        data: "0x0000000000000000000000009a8e3d0f4c4e7c1f2f5b8f1a3b0c6d6a2e7f8c91000000000000000000000000000000000000000000000000002386f26fc10000",
+      })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,29 @@
+import { parseAbi } from "viem";
+
+import { DecoderArgs, eventDecoder } from "./registry";
+
+const SAFE_ABI = parseAbi([
+  "event ExecutionSuccess(bytes32 txHash, uint256 payment)",
+  "event ExecutionFailure(bytes32 txHash, uint256 payment)",
+  "event SafeReceived(address indexed sender, uint256 value)",
+]);
+
+export const safeExecutionSuccess = eventDecoder(
+  "Safe",
+  SAFE_ABI,
+  "ExecutionSuccess"
+);
+export const safeExecutionFailure = eventDecoder(
+  "Safe",
+  SAFE_ABI,
+  "ExecutionFailure"
+);
+export const safeReceived = eventDecoder("Safe", SAFE_ABI, "SafeReceived");
+
+export type SafeExecutionArgs = DecoderArgs<typeof safeExecutionSuccess>;
+
+export const safeDecoders = [
+  safeExecutionSuccess,
+  safeExecutionFailure,
+  safeReceived,
+];
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+
+import { uniswapV2Swap, uniswapV3Swap } from "./swap";
+
+const POOL = "0x8f8ef111b67c04eb1641f5ff19ee54cda062f163";
+const SENDER = "0x9A8e3d0F4C4e7C1F2f5B8f1a3b0c6D6A2e7f8C91";
+const RECIPIENT = "0x7B2Fd6Ac4f3e2A1c5D3C8A4e6F0b9d8c7E6a5B43";
+
+const SENDER_TOPIC =
+  "0x0000000000000000000000009a8e3d0f4c4e7c1f2f5b8f1a3b0c6d6a2e7f8c91";
+const RECIPIENT_TOPIC =
+  "0x0000000000000000000000007b2fd6ac4f3e2a1c5d3c8a4e6f0b9d8c7e6a5b43";
+
+describe("Uniswap", () => {
+  it("decodes a V2 Swap", () => {
+    expect(
+      uniswapV2Swap.decode({
+        address: POOL,
+        topics: [
+          "0xd78ad95fa46c994b6551d0da85fc275fe613ce37657fb8d5e3d130840159d822",
+          SENDER_TOPIC,
+          RECIPIENT_TOPIC,
+        ],
+        data: "0x00000000000000000000000000000000000000000000000000000000000003e80000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000003de",
+      })
+    ).toEqual({
+      sender: SENDER,
+      amount0In: 1000n,
+      amount1In: 0n,
+      amount0Out: 0n,
+      amount1Out: 990n,
+      to: RECIPIENT,
+    });
+  });
+
+  it("decodes a V3 Swap with negative amounts and tick", () => {
+    expect(
+      uniswapV3Swap.decode({
+        address: POOL,
+        topics: [
+          "0xc42079f94a6350d7e6235f29174924f928cc2ac818eb64fed8004e115fbcca67",
+          SENDER_TOPIC,
+          RECIPIENT_TOPIC,
+        ],
+        data: "0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc1800000000000000000000000000000000000000000000000000000000000007d0000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000000000000000000000004c4b40fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff4",
+      })
+    ).toEqual({
+      sender: SENDER,
+      recipient: RECIPIENT,
+      amount0: -1000n,
+      amount1: 2000n,
+      sqrtPriceX96: 79228162514264337593543950336n,
+      liquidity: 5000000n,
+      tick: -12,
+    });
+  });
+
+  it("rejects a V2 Swap without its indexed recipient", () => {
+    expect(
+      uniswapV2Swap.decode({
+        address: POOL,
+        topics: [
+          "0xd78ad95fa46c994b6551d0da85fc275fe613ce37657fb8d5e3d130840159d822",
+          SENDER_TOPIC,
+        ],
+        data: "0x",
+      })
+    ).toBeNull();
+  });
+});
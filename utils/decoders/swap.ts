@@ -0,0 +1,20 @@
+import { parseAbi } from "viem";
+
+import { DecoderArgs, eventDecoder } from "./registry";
+
+// Uniswap pools and their forks (Sushiswap, Honeyswap, Aerodrome CL, ...)
+const UNISWAP_V2_ABI = parseAbi([
+  "event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)",
+]);
+
+const UNISWAP_V3_ABI = parseAbi([
+  "event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)",
+]);
+
+export const uniswapV2Swap = eventDecoder("UniswapV2", UNISWAP_V2_ABI, "Swap");
+export const uniswapV3Swap = eventDecoder("UniswapV3", UNISWAP_V3_ABI, "Swap");
+
+export type UniswapV2SwapArgs = DecoderArgs<typeof uniswapV2Swap>;
+export type UniswapV3SwapArgs = DecoderArgs<typeof uniswapV3Swap>;
+
+export const swapDecoders = [uniswapV2Swap, uniswapV3Swap];
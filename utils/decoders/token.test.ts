@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  erc1155TransferBatch,
+  erc1155TransferSingle,
+  erc20Approval,
+  erc20Transfer,
+  erc721Transfer,
+} from "./token";
+
+const ALICE = "0x9A8e3d0F4C4e7C1F2f5B8f1a3b0c6D6A2e7f8C91";
+const BOB = "0x7B2Fd6Ac4f3e2A1c5D3C8A4e6F0b9d8c7E6a5B43";
+const TOKEN = "0xe91d153e0b41518a2ce8dd3d7944fa863463a97d";
+
+const TRANSFER_TOPIC =
+  "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+const ALICE_TOPIC =
+  "0x0000000000000000000000009a8e3d0f4c4e7c1f2f5b8f1a3b0c6d6a2e7f8c91";
+const BOB_TOPIC =
+  "0x0000000000000000000000007b2fd6ac4f3e2a1c5d3c8a4e6f0b9d8c7e6a5b43";
+
+describe("ERC20", () => {
+  it("decodes Transfer", () => {
+    expect(erc20Transfer.topic0).toBe(TRANSFER_TOPIC);
+    expect(
+      erc20Transfer.decode({
+        address: TOKEN,
+        topics: [TRANSFER_TOPIC, ALICE_TOPIC, BOB_TOPIC],
+        data: "0x00000000000000000000000000000000000000000000000014d1120d7b160000",
+      })
+    ).toEqual({ from: ALICE, to: BOB, value: 1500000000000000000n });
+  });
+
+  it("decodes Approval", () => {
+    expect(
+      erc20Approval.decode({
+        address: TOKEN,
+        topics: [
+          "0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925",
+          ALICE_TOPIC,
+          BOB_TOPIC,
+        ],
+        data: "0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff",
+      })
+    ).toEqual({ owner: ALICE, spender: BOB, value: 2n ** 256n - 1n });
+  });
+
+  it("rejects an ERC721 Transfer, which indexes one more topic", () => {
+    expect(
+      erc20Transfer.decode({
+        address: TOKEN,
+        topics: [
+          TRANSFER_TOPIC,
+          ALICE_TOPIC,
+          BOB_TOPIC,
+          "0x000000000000000000000000000000000000000000000000000000000000002a",
+        ],
+        data: "0x",
+      })
+    ).toBeNull();
+  });
+});
+
+describe("ERC721", () => {
+  it("decodes a mint Transfer", () => {
+    expect(
+      erc721Transfer.decode({
+        address: TOKEN,
+        topics: [
+          TRANSFER_TOPIC,
+          "0x0000000000000000000000000000000000000000000000000000000000000000",
+          BOB_TOPIC,
+          "0x000000000000000000000000000000000000000000000000000000000000002a",
+        ],
+        data: "0x",
+      })
+    ).toEqual({
+      from: "0x0000000000000000000000000000000000000000",
+      to: BOB,
+      tokenId: 42n,
+    });
+  });
+
+  it("rejects an ERC20 Transfer", () => {
+    expect(
+      erc721Transfer.decode({
+        address: TOKEN,
+        topics: [TRANSFER_TOPIC, ALICE_TOPIC, BOB_TOPIC],
+        data: "0x00000000000000000000000000000000000000000000000014d1120d7b160000",
+      })
+    ).toBeNull();
+  });
+});
+
+describe("ERC1155", () => {
+  const topics = [ALICE_TOPIC, ALICE_TOPIC, BOB_TOPIC] as const;
+
+  it("decodes TransferSingle", () => {
+    expect(
+      erc1155TransferSingle.decode({
+        address: TOKEN,
+        topics: [
+          "0xc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f62",
+          ...topics,
+        ],
+        data: "0x00000000000000000000000000000000000000000000000000000000000000070000000000000000000000000000000000000000000000000000000000000003",
+      })
+    ).toEqual({ operator: ALICE, from: ALICE, to: BOB, id: 7n, value: 3n });
+  });
+
+  it("decodes TransferBatch", () => {
+    expect(
+      erc1155TransferBatch.decode({
+        address: TOKEN,
+        topics: [
+          "0x4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb",
+          ...topics,
+        ],
+        data: "0x000000000000000000000000000000000000000000000000000000000000004000000000000000000000000000000000000000000000000000000000000000a00000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000100000000000000000000000000000000000000000000000000000000000000020000000000000000000000000000000000000000000000000000000000000002000000000000000000000000000000000000000000000000000000000000000a0000000000000000000000000000000000000000000000000000000000000014",
+      })
+    ).toEqual({
+      operator: ALICE,
+      from: ALICE,
+      to: BOB,
+      ids: [1n, 2n],
+      values: [10n, 20n],
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { parseAbi } from "viem";
+
+import { DecoderArgs, eventDecoder } from "./registry";
+
+const ERC20_ABI = parseAbi([
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "event Approval(address indexed owner, address indexed spender, uint256 value)",
+]);
+
+const ERC721_ABI = parseAbi([
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+]);
+
+const ERC1155_ABI = parseAbi([
+  "event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)",
+  "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)",
+]);
+
+export const erc20Transfer = eventDecoder("ERC20", ERC20_ABI, "Transfer");
+export const erc20Approval = eventDecoder("ERC20", ERC20_ABI, "Approval");
+export const erc721Transfer = eventDecoder("ERC721", ERC721_ABI, "Transfer");
+export const erc1155TransferSingle = eventDecoder(
+  "ERC1155",
+  ERC1155_ABI,
+  "TransferSingle"
+);
+export const erc1155TransferBatch = eventDecoder(
+  "ERC1155",
+  ERC1155_ABI,
+  "TransferBatch"
+);
+
+export type ERC20TransferArgs = DecoderArgs<typeof erc20Transfer>;
+export type ERC721TransferArgs = DecoderArgs<typeof erc721Transfer>;
+
+export const tokenDecoders = [
+  erc20Transfer,
+  erc20Approval,
+  erc721Transfer,
+  erc1155TransferSingle,
+  erc1155TransferBatch,
+];
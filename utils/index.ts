@@ -10,23 +10,38 @@ import {
   MetadataJson,
   TokenTransferData,
 } from "../src/types";
-import { executeQuery, pool } from "./postgres";
+import { executeQuery } from "./postgres";
 import { processPackageDownload } from "./ipfs";
+import { learnAbiSignatures } from "./signatures";
+import { resolveAbi } from "./abiProviders";
+import {
+  BEACON_ABI,
+  DIAMOND_LOUPE_ABI,
+  getMinimalProxyImplementation,
+  isDiamondAbi,
+  isSafeProxyBytecode,
+  mergeAbis,
+  MergedAbi,
+  SelectorCollision,
+} from "./proxies";
+import {
+  getImplementationObservations,
+  getStoredAbi,
+  recordImplementation,
+  storeContractAbi,
+  updateProxyMerge,
+} from "./abiStore";
+import { LruCache } from "./lruCache";
 
-const getAbidataRedisKey = (address: string, network: string): string =>
-  `abidata:${address.toLowerCase()}:${network}`;
+const getAbiRedisKey = (address: string, network: string): string =>
+  `abi:${address.toLowerCase()}:${network}`;
 
 const TTL = 7 * 24 * 60 * 60; // 1 week
 
 const NEGATIVE_RESPONSE_TTL = 24 * 60 * 60; // 1 day for negative responses
 
-const INITIAL_RETRY_DELAY = 5000;
-
-const INITIAL_TIMEOUT = 30000; // 30 seconds
-const MAX_TIMEOUT = 60000; // 60 seconds
-const TIMEOUT_MULTIPLIER = 1.5;
-
-const MAX_RETRIES = 150;
+const getNotProxyRedisKey = (address: string, network: string): string =>
+  `not-proxy:${address.toLowerCase()}:${network}`;
 
 const axiosInstance = axios.create({
   timeout: 5000,
@@ -107,6 +122,12 @@ export const CONTRACT_NAMES = [
   "BaseRegistry",
 ] as const;
 
+export const MULTISIG_NAMES = [
+  "MainnetServiceMultisig",
+  "GnosisServiceMultisig",
+  "BaseServiceMultisig",
+] as const;
+
 export const getChainId = (chain: string): number => {
   switch (chain.toLowerCase()) {
     case "mainnet":
@@ -192,11 +213,15 @@ export const fetchAndEmbedMetadata = async (
 interface ProxyImplementation {
   address: string;
   abi: any;
+  // Set for diamonds, whose ABI merges every facet's
+  facets?: string[];
 }
 
 type ProxyPattern = {
   name: string;
   slot: `0x${string}`;
+  // The slot holds a beacon, which is asked for the implementation
+  beacon?: boolean;
 };
 
 const PROXY_PATTERNS: Record<string, ProxyPattern> = {
@@ -206,7 +231,8 @@ const PROXY_PATTERNS: Record<string, ProxyPattern> = {
   },
   EIP1967_BEACON: {
     name: "EIP-1967 Beacon",
-    slot: "0x7050c9e0f4ca769c69bd3a8ef740bc37934f8e2c036e5a723fd8ee048ed3f8c3",
+    slot: "0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50",
+    beacon: true,
   },
   SIMPLE_PROXY: {
     name: "Simple Proxy",
@@ -371,6 +397,244 @@ async function tryGetImplementationFromCustomProxy(
   }
 }
 
+const reportSelectorCollisions = (
+  formattedAddress: string,
+  collisions: SelectorCollision[]
+) => {
+  for (const { kind, selector, kept, dropped } of collisions) {
+    console.warn(
+      `[ABI] Selector collision in ${formattedAddress}: ${kind} ${selector} decodes as ${kept}, ignoring ${dropped}`
+    );
+  }
+};
+
+// Addresses whose ABIs are merged with a proxy's own
+const getMergedWith = (implementation: ProxyImplementation) =>
+  implementation.facets ?? [implementation.address.toLowerCase()];
+
+// Keyed by the merged addresses as well, so a proxy decoded on both sides of
+// an upgrade keeps both ABIs until one is no longer used
+const mergedProxyAbis = new LruCache<string, MergedAbi>(1_000);
+
+/**
+ * Returns the ABI calls to a proxy are decoded with: the proxy's own
+ * fragments, such as its upgrade and admin events, and then those of its
+ * implementation. Fragments of the proxy win selector collisions, as the
+ * proxy handles those calls itself.
+ */
+function mergeProxyAbi(
+  formattedAddress: string,
+  chainId: number,
+  proxyAbi: unknown[],
+  implementation: ProxyImplementation
+): MergedAbi {
+  const key = `${formattedAddress}-${chainId}-${getMergedWith(implementation).join(",")}`;
+  const cached = mergedProxyAbis.get(key);
+  if (cached) return cached;
+
+  const merged = mergeAbis([
+    proxyAbi,
+    Array.isArray(implementation.abi) ? [...implementation.abi] : [],
+  ]);
+  reportSelectorCollisions(formattedAddress, merged.collisions);
+
+  mergedProxyAbis.set(key, merged);
+  return merged;
+}
+
+async function tryGetImplementationFromBeacon(
+  context: any,
+  formattedAddress: string,
+  slot: `0x${string}`,
+  blockNumber: bigint,
+  chainId: number
+): Promise<ProxyImplementation | null> {
+  try {
+    const beaconSlot = await context.client
+      .getStorageAt({
+        address: formattedAddress as `0x${string}`,
+        slot,
+        blockNumber,
+      })
+      .catch(() => null);
+
+    const beaconAddress = cleanImplementationAddress(beaconSlot);
+    if (!beaconAddress) return null;
+
+    const implementationAddress = await context.client.readContract({
+      address: beaconAddress as `0x${string}`,
+      abi: BEACON_ABI,
+      functionName: "implementation",
+      blockNumber,
+    });
+
+    if (!isValidAddress(implementationAddress)) return null;
+
+    console.log(
+      `[IMP] Found implementation via beacon ${beaconAddress} for ${formattedAddress}: ${implementationAddress}`
+    );
+
+    const implementationAbi = await checkAndStoreAbi(
+      implementationAddress,
+      chainId,
+      context,
+      blockNumber,
+      false
+    ).catch(() => null);
+
+    return implementationAbi
+      ? { address: implementationAddress.toLowerCase(), abi: implementationAbi }
+      : null;
+  } catch (error) {
+    console.debug(`[IMP] Beacon lookup failed for ${formattedAddress}:`, {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return null;
+  }
+}
+
+/**
+ * Reads the implementation from the EIP-1967 slots alone, without fetching
+ * its ABI. Returns null when neither slot is set or the read fails.
+ */
+async function readEip1967Implementation(
+  context: any,
+  formattedAddress: string,
+  blockNumber: bigint
+): Promise<string | null> {
+  try {
+    const implementationSlot = await context.client.getStorageAt({
+      address: formattedAddress as `0x${string}`,
+      slot: PROXY_PATTERNS.EIP1967?.slot as `0x${string}`,
+      blockNumber,
+    });
+    const implementationAddress =
+      cleanImplementationAddress(implementationSlot);
+    if (implementationAddress) return implementationAddress;
+
+    const beaconSlot = await context.client.getStorageAt({
+      address: formattedAddress as `0x${string}`,
+      slot: PROXY_PATTERNS.EIP1967_BEACON?.slot as `0x${string}`,
+      blockNumber,
+    });
+    const beaconAddress = cleanImplementationAddress(beaconSlot);
+    if (!beaconAddress) return null;
+
+    const beaconImplementation = await context.client.readContract({
+      address: beaconAddress as `0x${string}`,
+      abi: BEACON_ABI,
+      functionName: "implementation",
+      blockNumber,
+    });
+    return isValidAddress(beaconImplementation)
+      ? beaconImplementation.toLowerCase()
+      : null;
+  } catch (error) {
+    console.debug(`[IMP] EIP-1967 read failed for ${formattedAddress}:`, {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return null;
+  }
+}
+
+async function tryGetDiamondFacets(
+  context: any,
+  formattedAddress: string,
+  blockNumber: bigint,
+  chainId: number
+): Promise<ProxyImplementation | null> {
+  try {
+    const facetAddresses: readonly string[] = await context.client
+      .readContract({
+        address: formattedAddress as `0x${string}`,
+        abi: DIAMOND_LOUPE_ABI,
+        functionName: "facetAddresses",
+        blockNumber,
+      })
+      .catch(() => null);
+
+    const facets = [
+      ...new Set(
+        (facetAddresses ?? [])
+          .filter(isValidAddress)
+          .map((facet) => facet.toLowerCase())
+      ),
+    ];
+    if (facets.length === 0) return null;
+
+    const facetAbis = await Promise.all(
+      facets.map((facet) =>
+        checkAndStoreAbi(facet, chainId, context, blockNumber, false).catch(
+          () => null
+        )
+      )
+    );
+    const knownAbis = facetAbis.filter((abi): abi is unknown[] =>
+      Array.isArray(abi)
+    );
+    if (knownAbis.length === 0) return null;
+
+    console.log(
+      `[IMP] Found diamond ${formattedAddress} with ${facets.length} facets, ${knownAbis.length} with an ABI`
+    );
+
+    const { abi, collisions } = mergeAbis(knownAbis);
+    reportSelectorCollisions(formattedAddress, collisions);
+
+    return { address: formattedAddress, abi, facets };
+  } catch (error) {
+    console.debug(`[IMP] Diamond lookup failed for ${formattedAddress}:`, {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return null;
+  }
+}
+
+/**
+ * Detects proxies from their runtime code, which works for clones and Safes
+ * whose own ABI is not verified anywhere.
+ */
+async function tryGetImplementationFromBytecode(
+  context: any,
+  formattedAddress: string,
+  blockNumber: bigint,
+  chainId: number
+): Promise<ProxyImplementation | null> {
+  const bytecode: string | undefined = await context.client
+    .getCode({ address: formattedAddress as `0x${string}`, blockNumber })
+    .catch(() => undefined);
+
+  const cloneTarget = getMinimalProxyImplementation(bytecode);
+  if (cloneTarget && isValidAddress(cloneTarget)) {
+    console.log(
+      `[IMP] Found EIP-1167 clone ${formattedAddress} of ${cloneTarget}`
+    );
+    const implementationAbi = await checkAndStoreAbi(
+      cloneTarget,
+      chainId,
+      context,
+      blockNumber,
+      false
+    ).catch(() => null);
+    return implementationAbi
+      ? { address: cloneTarget, abi: implementationAbi }
+      : null;
+  }
+
+  if (isSafeProxyBytecode(bytecode)) {
+    return await tryGetImplementationFromSlot(
+      context,
+      formattedAddress,
+      PROXY_PATTERNS.SIMPLE_PROXY?.slot as `0x${string}`,
+      blockNumber,
+      chainId,
+      "Safe masterCopy"
+    );
+  }
+
+  return null;
+}
+
 export function isProxyContract(abi: any): boolean {
   try {
     const abiObj = typeof abi === "string" ? JSON.parse(abi) : abi;
@@ -389,6 +653,11 @@ export function isProxyContract(abi: any): boolean {
       return true;
     }
 
+    if (isDiamondAbi(abiObj as any[])) {
+      console.log("[ABI] Detected EIP-2535 Diamond Pattern");
+      return true;
+    }
+
     // Additional proxy checks...
     const isUUPSProxy = abiObj.some(
       (item) =>
@@ -423,11 +692,17 @@ export function isProxyContract(abi: any): boolean {
   }
 }
 
+/**
+ * Finds the implementation a proxy delegates to at a block. Pass the proxy's
+ * own ABI when it is already known, or null when it has none, to skip
+ * looking it up again.
+ */
 export async function getImplementationAddress(
   contractAddress: string,
   chainId: number,
   context: any,
-  blockNumber: bigint
+  blockNumber: bigint,
+  knownAbi?: unknown[] | null
 ): Promise<ProxyImplementation | null> {
   try {
     if (!isValidAddress(contractAddress)) {
@@ -436,22 +711,50 @@ export async function getImplementationAddress(
     }
 
     const formattedAddress = contractAddress.toLowerCase();
-    const contractAbi = await checkAndStoreAbi(
-      formattedAddress,
-      chainId,
+
+    const bytecodeImplementation = await tryGetImplementationFromBytecode(
       context,
+      formattedAddress,
       blockNumber,
-      false
-    ).catch(() => null);
+      chainId
+    );
+    if (bytecodeImplementation) return bytecodeImplementation;
+
+    const contractAbi =
+      knownAbi !== undefined
+        ? knownAbi
+        : await checkAndStoreAbi(
+            formattedAddress,
+            chainId,
+            context,
+            blockNumber,
+            false
+          ).catch(() => null);
 
     if (!contractAbi) {
       console.log(`[IMP] No ABI found for ${formattedAddress}`);
-      return null;
+      // Unverified diamonds can still list their facets
+      return await tryGetDiamondFacets(
+        context,
+        formattedAddress,
+        blockNumber,
+        chainId
+      );
     }
 
     const parsedAbi =
       typeof contractAbi === "string" ? JSON.parse(contractAbi) : contractAbi;
 
+    if (isDiamondAbi(parsedAbi)) {
+      const diamond = await tryGetDiamondFacets(
+        context,
+        formattedAddress,
+        blockNumber,
+        chainId
+      );
+      if (diamond) return diamond;
+    }
+
     if (isBasicProxy(parsedAbi)) {
       const implementation = await tryGetImplementationFromSlot(
         context,
@@ -486,14 +789,22 @@ export async function getImplementationAddress(
 
     // Check standard proxy patterns silently
     for (const [, pattern] of Object.entries(PROXY_PATTERNS)) {
-      const implementation = await tryGetImplementationFromSlot(
-        context,
-        formattedAddress,
-        pattern.slot,
-        blockNumber,
-        chainId,
-        `${pattern.name} slot`
-      );
+      const implementation = pattern.beacon
+        ? await tryGetImplementationFromBeacon(
+            context,
+            formattedAddress,
+            pattern.slot,
+            blockNumber,
+            chainId
+          )
+        : await tryGetImplementationFromSlot(
+            context,
+            formattedAddress,
+            pattern.slot,
+            blockNumber,
+            chainId,
+            `${pattern.name} slot`
+          );
       if (implementation) return implementation;
     }
 
@@ -545,15 +856,135 @@ export async function getImplementationAddress(
   }
 }
 
+/**
+ * Finds the implementation a proxy delegated to at a block, from its
+ * recorded history when that settles it and from the chain otherwise.
+ * Upgrades are only recorded from the transactions indexed, so past the
+ * latest observation the EIP-1967 slots are read again to catch upgrades
+ * made elsewhere; proxies using other patterns keep the latest observation.
+ * Reads are only recorded when they find another implementation than the
+ * previous observation. Diamonds are always read live, their facets change
+ * without an implementation upgrade.
+ */
+async function getImplementationAtBlock(
+  formattedAddress: string,
+  chainId: number,
+  context: any,
+  blockNumber: bigint,
+  knownAbi?: unknown[] | null
+): Promise<ProxyImplementation | null> {
+  const chain = getChainNameFromId(chainId);
+  const block = Number(blockNumber);
+  const { previous, next } = await getImplementationObservations(
+    formattedAddress,
+    chain,
+    block
+  );
+
+  // Nothing changed since the latest observation, or between two
+  // observations around the block short of an upgrade that was later reverted
+  let knownImplementation =
+    previous &&
+    (previous.blockNumber === block ||
+      !next ||
+      previous.implementationAddress === next.implementationAddress)
+      ? previous.implementationAddress
+      : null;
+
+  if (previous && !next && previous.blockNumber !== block) {
+    const current = await readEip1967Implementation(
+      context,
+      formattedAddress,
+      blockNumber
+    );
+    if (current && current !== knownImplementation) {
+      await recordImplementation({
+        address: formattedAddress,
+        chain,
+        blockNumber: block,
+        implementationAddress: current,
+        source: "read",
+      });
+      knownImplementation = current;
+    }
+  }
+
+  if (knownImplementation) {
+    const implementationAbi = await checkAndStoreAbi(
+      knownImplementation,
+      chainId,
+      context,
+      blockNumber,
+      false
+    ).catch(() => null);
+    if (implementationAbi) {
+      return { address: knownImplementation, abi: implementationAbi };
+    }
+  }
+
+  const implementation = await getImplementationAddress(
+    formattedAddress,
+    chainId,
+    context,
+    blockNumber,
+    knownAbi
+  );
+
+  if (
+    implementation &&
+    !implementation.facets &&
+    implementation.address.toLowerCase() !== previous?.implementationAddress
+  ) {
+    await recordImplementation({
+      address: formattedAddress,
+      chain,
+      blockNumber: block,
+      implementationAddress: implementation.address,
+      source: "read",
+    });
+  }
+
+  return implementation;
+}
+
+/**
+ * Returns the ABI to decode calls to a contract with, following proxies to
+ * their implementation. Every ABI found also feeds the signature database
+ * used for contracts without one.
+ */
 export async function checkAndStoreAbi(
   contractAddress: string,
   chainId: number,
   context: any,
   blockNumber: bigint,
   isImplementation = true
+) {
+  const abi = await findContractAbi(
+    contractAddress,
+    chainId,
+    context,
+    blockNumber,
+    isImplementation
+  );
+
+  if (abi) {
+    learnAbiSignatures(
+      abi,
+      `${contractAddress.toLowerCase()}-${chainId}-${isImplementation}`
+    );
+  }
+
+  return abi;
+}
+
+async function findContractAbi(
+  contractAddress: string,
+  chainId: number,
+  context: any,
+  blockNumber: bigint,
+  isImplementation: boolean
 ) {
   const formattedAddress = contractAddress.toLowerCase();
-  const addressAndChain = `${formattedAddress}-${getChainNameFromId(chainId)}`;
 
   try {
     if (
@@ -571,41 +1002,6 @@ export async function checkAndStoreAbi(
       return null;
     }
 
-    const checkQuery = `
-      SELECT content as abi_text
-      FROM context_embeddings 
-      WHERE id = $1 
-      AND type = 'abi'
-      LIMIT 1;
-    `;
-
-    const existingAbi = await pool.query(checkQuery, [addressAndChain]);
-
-    if (existingAbi.rows.length > 0) {
-      const abiText = existingAbi.rows[0].abi_text;
-      if (typeof abiText === "string") {
-        try {
-          const parsedAbi = JSON.parse(abiText);
-          if (isImplementation && isProxyContract(parsedAbi)) {
-            const implementation = await getImplementationAddress(
-              formattedAddress,
-              chainId,
-              context,
-              blockNumber
-            );
-            if (implementation?.address && implementation?.abi) {
-              return implementation.abi;
-            }
-          }
-          return parsedAbi;
-        } catch (e) {
-          console.error(
-            `[ABI] Invalid ABI format in database for ${addressAndChain}`
-          );
-        }
-      }
-    }
-
     const network = getChainNameFromId(chainId);
 
     if (!network) {
@@ -615,33 +1011,72 @@ export async function checkAndStoreAbi(
       throw new Error(`Unsupported chain ID: ${chainId}`);
     }
 
-    const abidataRedisKey = getAbidataRedisKey(formattedAddress, network);
+    const stored = await getStoredAbi(formattedAddress, network);
+
+    if (stored) {
+      if (isImplementation && stored.isProxy) {
+        const implementation = await getImplementationAtBlock(
+          formattedAddress,
+          chainId,
+          context,
+          blockNumber,
+          stored.abi
+        );
+        if (implementation?.address && implementation?.abi) {
+          const merged = mergeProxyAbi(
+            formattedAddress,
+            chainId,
+            stored.abi,
+            implementation
+          );
+          const mergedWith = getMergedWith(implementation);
+          if (mergedWith.join(",") !== stored.mergedWith?.join(",")) {
+            void updateProxyMerge(formattedAddress, network, {
+              implementationAddress: implementation.facets
+                ? null
+                : implementation.address,
+              mergedWith,
+              selectorCollisions: merged.collisions,
+            });
+          }
+          return merged.abi;
+        }
+      }
+      return stored.abi;
+    }
+
+    const abiRedisKey = getAbiRedisKey(formattedAddress, network);
 
     try {
       // Only attempt to use Redis cache if REDIS_URL is configured
       if (process.env.REDIS_URL && redisClient.isReady) {
-        const cachedAbidataResponse = await redisClient.get(abidataRedisKey);
-        if (cachedAbidataResponse) {
+        const cachedResponse = await redisClient.get(abiRedisKey);
+        if (cachedResponse) {
           try {
-            const parsedResponse = JSON.parse(cachedAbidataResponse);
+            const parsedResponse = JSON.parse(cachedResponse);
 
             if (parsedResponse === null) {
               console.debug(
                 `[ABI] Using cached negative response for ${formattedAddress}`
               );
-              return null;
+              return await findUnverifiedProxyAbi(
+                formattedAddress,
+                chainId,
+                context,
+                blockNumber,
+                isImplementation
+              );
             }
 
-            if (Array.isArray(parsedResponse)) {
-              const content = JSON.stringify(parsedResponse);
-
+            if (Array.isArray(parsedResponse?.abi)) {
               return await processAbiResponse(
-                content,
+                parsedResponse.abi,
                 formattedAddress,
                 chainId,
                 context,
                 blockNumber,
-                isImplementation
+                isImplementation,
+                parsedResponse.source
               );
             }
           } catch (e) {
@@ -661,84 +1096,60 @@ export async function checkAndStoreAbi(
       );
     }
 
-    const url =
-      `https://abidata.net/${contractAddress}?network=${network}`.trim();
-    console.log(`[ABI] Fetching ABI from: ${url}`);
+    const resolved = await resolveAbi({
+      address: formattedAddress,
+      chainId,
+      network,
+    });
 
     try {
-      const response = await fetchWithRetry(url, MAX_RETRIES, INITIAL_TIMEOUT);
-
-      if (!response.data?.ok || !response.data.abi) {
-        try {
-          // Only attempt to cache if REDIS_URL is configured
-          if (process.env.REDIS_URL && redisClient.isReady) {
-            void redisClient.set(abidataRedisKey, JSON.stringify(null), {
-              EX: NEGATIVE_RESPONSE_TTL,
-              NX: true
-            });
-            console.debug(
-              `[ABI] Cached negative response for ${formattedAddress} with ${NEGATIVE_RESPONSE_TTL}s TTL`
-            );
-          }
-        } catch (redisCacheError) {
-          console.warn(
-            `[ABI] Failed to cache negative response for ${formattedAddress}:`,
-            {
-              error:
-                redisCacheError instanceof Error
-                  ? redisCacheError.message
-                  : "Unknown error",
-            }
-          );
-        }
-
-        throw new Error("No ABI found in response");
-      }
-
-      const processedAbi = JSON.stringify(response.data.abi);
-
-      try {
-        // Only attempt to cache if REDIS_URL is configured
-        if (process.env.REDIS_URL && redisClient.isReady) {
-          void redisClient.set(abidataRedisKey, processedAbi, {
-            EX: TTL,
-            NX: true
-          });
-          console.debug(`[ABI] Cached ABI for ${formattedAddress} with ${TTL}s TTL`);
-        }
-      } catch (redisCacheError) {
-        console.warn(
-          `[ABI] Failed to cache ABI in Redis for ${formattedAddress}, continuing without caching:`,
-          {
-            error:
-              redisCacheError instanceof Error
-                ? redisCacheError.message
-                : "Unknown error",
-          }
+      // Only attempt to cache if REDIS_URL is configured, and not when a
+      // provider failed, as it may well have the ABI
+      if (
+        process.env.REDIS_URL &&
+        redisClient.isReady &&
+        resolved !== "failed"
+      ) {
+        void redisClient.set(abiRedisKey, JSON.stringify(resolved), {
+          EX: resolved ? TTL : NEGATIVE_RESPONSE_TTL,
+          NX: true,
+        });
+        console.debug(
+          `[ABI] Cached ${resolved ? "ABI" : "negative response"} for ${formattedAddress}`
         );
       }
+    } catch (redisCacheError) {
+      console.warn(
+        `[ABI] Failed to cache ABI in Redis for ${formattedAddress}, continuing without caching:`,
+        {
+          error:
+            redisCacheError instanceof Error
+              ? redisCacheError.message
+              : "Unknown error",
+        }
+      );
+    }
 
-      return await processAbiResponse(
-        processedAbi,
+    if (!resolved || resolved === "failed") {
+      return await findUnverifiedProxyAbi(
         formattedAddress,
         chainId,
         context,
         blockNumber,
-        isImplementation
+        isImplementation,
+        resolved !== "failed"
       );
-    } catch (error) {
-      if (axios.isAxiosError(error) && error.response?.status === 400) {
-        console.log(
-          `[ABI] ${formattedAddress} is invalid: ${
-            error.response?.data?.message || error.message
-          }`
-        );
-        return null;
-      }
-
-      handleFetchError(error, url, formattedAddress);
-      return null;
     }
+
+    return await processAbiResponse(
+      resolved.abi,
+      formattedAddress,
+      chainId,
+      context,
+      blockNumber,
+      isImplementation,
+      resolved.source
+    );
   } catch (error) {
     console.error(`[ABI] Error processing ABI for ${formattedAddress}:`, {
       error: error instanceof Error ? error.message : "Unknown error",
@@ -748,36 +1159,68 @@ export async function checkAndStoreAbi(
   }
 }
 
-function handleFetchError(error: any, url: string, formattedAddress: string) {
-  if (isTimeoutError(error)) {
-    console.error(`[ABI] Final timeout for ${url} after all retries`);
-  }
-  if (axios.isAxiosError(error)) {
-    const status = error.response?.status;
-    const headers = error.response?.headers;
-
-    console.error(`[ABI] HTTP error fetching ABI for ${formattedAddress}:`, {
-      status,
-      headers: {
-        "retry-after": headers?.["retry-after"],
-        "ratelimit-reset": headers?.["ratelimit-reset"],
-        "ratelimit-remaining": headers?.["ratelimit-remaining"],
-      },
-      message: error.message,
-      url: error.config?.url,
-    });
+// Expiry times of contracts without an ABI found not to be proxies, so
+// their code is probed once per negative response rather than every decode
+const notProxyContracts = new LruCache<string, number>(10_000);
 
-    if (status === 429) {
-      console.error(
-        `[ABI] Rate limit exceeded for ${formattedAddress} after all retries`
+// Clones and diamonds often have no ABI of their own, but their code or
+// facets still lead to one. Contracts are only remembered as not being
+// proxies when every ABI provider answered.
+async function findUnverifiedProxyAbi(
+  formattedAddress: string,
+  chainId: number,
+  context: any,
+  blockNumber: bigint,
+  isImplementation: boolean,
+  rememberNotProxy = true
+) {
+  if (!isImplementation) return null;
+
+  const notProxyKey = getNotProxyRedisKey(
+    formattedAddress,
+    getChainNameFromId(chainId)
+  );
+  if ((notProxyContracts.get(notProxyKey) ?? 0) > Date.now()) return null;
+
+  try {
+    if (
+      process.env.REDIS_URL &&
+      redisClient.isReady &&
+      (await redisClient.get(notProxyKey))
+    ) {
+      notProxyContracts.set(
+        notProxyKey,
+        Date.now() + NEGATIVE_RESPONSE_TTL * 1000
       );
+      return null;
     }
-  } else {
-    console.error(`[ABI] Error fetching ABI for ${formattedAddress}:`, {
-      error: error instanceof Error ? error.message : "Unknown error",
-      stack: error instanceof Error ? error.stack : undefined,
-    });
+  } catch (redisError) {
+    console.warn(
+      `[IMP] Redis cache unavailable for ${formattedAddress}, probing its code:`,
+      {
+        error:
+          redisError instanceof Error ? redisError.message : "Unknown error",
+      }
+    );
+  }
+
+  const implementation = await getImplementationAtBlock(
+    formattedAddress,
+    chainId,
+    context,
+    blockNumber,
+    null
+  );
+  if (implementation?.abi) return implementation.abi;
+  if (!rememberNotProxy) return null;
+
+  notProxyContracts.set(notProxyKey, Date.now() + NEGATIVE_RESPONSE_TTL * 1000);
+  if (process.env.REDIS_URL && redisClient.isReady) {
+    void redisClient
+      .set(notProxyKey, "1", { EX: NEGATIVE_RESPONSE_TTL })
+      .catch(() => null);
   }
+  return null;
 }
 
 function getChainExplorerUrl(chainId: number, contractAddress: string): string {
@@ -793,218 +1236,136 @@ function getChainExplorerUrl(chainId: number, contractAddress: string): string {
 }
 
 async function processAbiResponse(
-  abi: any,
+  abi: unknown[],
   formattedAddress: string,
   chainId: number,
   context: any,
   blockNumber: bigint,
-  isImplementation: boolean
+  isImplementation: boolean,
+  source: string
 ) {
   if (!abi) {
     console.error(`[ABI] No ABI provided for ${formattedAddress}`);
     return null;
   }
 
-  let parsedAbi;
-  try {
-    parsedAbi = typeof abi === "string" ? JSON.parse(abi) : abi;
-  } catch (e) {
-    console.error(`[ABI] Failed to parse ABI for ${formattedAddress}:`, e);
-    return null;
-  }
-
   const chainName = getChainNameFromId(chainId);
-  const location = getChainExplorerUrl(chainId, formattedAddress);
   const id = `${formattedAddress}-${chainName}`;
 
-  const existingEntry = await executeQuery(async (client: any) => {
-    const result = await client.query(
-      `SELECT id FROM context_embeddings WHERE lower(id) LIKE $1 AND type = 'abi' LIMIT 1`,
-      [`${id.toLowerCase()}%`]
-    );
-    return result.rows.length > 0;
-  });
-
-  if (existingEntry) {
+  const existing = await getStoredAbi(formattedAddress, chainName);
+  if (existing) {
     console.log(`[ABI] Entry already exists for ${id}, skipping processing`);
-    return parsedAbi;
+    return abi;
   }
 
-  if (isImplementation && isProxyContract(parsedAbi)) {
-    const implementation = await getImplementationAddress(
-      formattedAddress,
-      chainId,
-      context,
-      blockNumber
-    );
-
-    if (implementation?.address && implementation?.abi) {
-      const content =
-        typeof implementation.abi === "string"
-          ? implementation.abi
-          : JSON.stringify(implementation.abi);
-
-      const embeddings = await generateEmbeddingWithRetry(content);
-
-      await storeAbiInDatabase({
-        id,
-        location,
-        content,
-        embeddings,
-        implementationAddress: implementation.address,
-      });
-
-      return implementation.abi;
-    }
-  }
-
-  const content =
-    typeof parsedAbi === "string" ? parsedAbi : JSON.stringify(parsedAbi);
-  const embeddings = await generateEmbeddingWithRetry(content);
+  const isProxy = isProxyContract(abi);
+  const implementation =
+    isImplementation && isProxy
+      ? await getImplementationAtBlock(
+          formattedAddress,
+          chainId,
+          context,
+          blockNumber,
+          abi
+        )
+      : null;
+  const implementationAddress =
+    implementation?.address && implementation?.abi && !implementation.facets
+      ? implementation.address
+      : null;
+  const merged = implementation
+    ? mergeProxyAbi(formattedAddress, chainId, abi, implementation)
+    : null;
+
+  // The proxy keeps its own ABI, the implementation's is stored under its
+  // own address by getImplementationAddress
+  await storeContractAbi({
+    address: formattedAddress,
+    chain: chainName,
+    abi,
+    source,
+    isProxy,
+    implementationAddress,
+    mergedWith: implementation ? getMergedWith(implementation) : null,
+    selectorCollisions: merged?.collisions ?? null,
+  });
 
-  await storeAbiInDatabase({
+  await storeAbiEmbeddings({
     id,
-    location,
-    content,
-    embeddings,
-    implementationAddress: null,
+    location: getChainExplorerUrl(chainId, formattedAddress),
+    content: JSON.stringify(abi),
+    implementationAddress,
   });
 
-  return parsedAbi;
+  return merged?.abi ?? abi;
 }
 
-async function storeAbiInDatabase({
+/**
+ * Stores embeddings of an ABI for semantic search. Decoding never depends on
+ * them, so failures are logged and otherwise ignored.
+ */
+async function storeAbiEmbeddings({
   id,
   location,
   content,
-  embeddings,
-  implementationAddress = null as string | null,
+  implementationAddress,
 }: {
   id: string;
   location: string;
   content: string;
-  embeddings: string | string[];
   implementationAddress: string | null;
 }) {
   try {
-    if (Array.isArray(embeddings)) {
-      const results = await Promise.all(
-        embeddings.map(async (embedding, index) => {
-          const existingChunk = await executeQuery(async (client: any) => {
-            const result = await client.query(
-              `SELECT id FROM context_embeddings WHERE id = $1 AND type = 'abi' AND location = $2 LIMIT 1`,
-              [`${id}-${index}`, location]
-            );
-            return result.rows.length > 0;
-          });
-
-          if (existingChunk) {
-            console.log(
-              `[ABI] Chunk ${index} already exists for ${id}, skipping insert`
-            );
-            return true;
-          }
-
-          const result = await executeQuery(async (client: any) => {
-            const queryResult = await client.query(
-              `INSERT INTO context_embeddings (
-                id,
-                company_id,
-                type,
-                location,
-                original_location,
-                content,
-                name,
-                embedding,
-                is_chunk,
-                created_at,
-                updated_at
-              ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())  
-              ON CONFLICT (id, type, location) DO UPDATE SET
-                content = EXCLUDED.content,
-                embedding = EXCLUDED.embedding,
-                updated_at = NOW()
-              RETURNING id`,
-              [
-                `${id}-${index}`,
-                "olas",
-                "abi",
-                location,
-                implementationAddress
-                  ? getChainExplorerUrl(
-                      getChainId(id.split("-")[1] || "mainnet"),
-                      implementationAddress
-                    )
-                  : null,
-                content,
-                id.split("-")[0],
-                embedding,
-                true,
-              ]
-            );
-
-            return queryResult;
-          });
-          return result.rows.length > 0;
-        })
-      );
-      return results.every(Boolean);
-    } else {
-      const result = await executeQuery(async (client: any) => {
-        const queryResult = await client.query(
-          `INSERT INTO context_embeddings (
-            id,
-            company_id,
-            type,
-            location,
-            original_location,
-            content,
-            name,
-            embedding,
-            is_chunk,
-            created_at,
-            updated_at
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())  
-          ON CONFLICT (id, type, location) DO UPDATE SET
-            content = EXCLUDED.content,
-            embedding = EXCLUDED.embedding,
-            updated_at = NOW()
-          RETURNING id`,
-          [
-            id,
-            "olas",
-            "abi",
-            location,
-            implementationAddress
-              ? getChainExplorerUrl(
-                  getChainId(id.split("-")[1] || "mainnet"),
-                  implementationAddress
-                )
-              : null,
-            content,
-            id.split("-")[0],
-            embeddings,
-            false,
-          ]
-        );
-
-        return queryResult;
-      });
-      return result.rows.length > 0;
-    }
+    const embeddings = await generateEmbeddingWithRetry(content);
+    const chunks = Array.isArray(embeddings) ? embeddings : [embeddings];
+    const isChunked = Array.isArray(embeddings);
+
+    await Promise.all(
+      chunks.map((embedding, index) =>
+        executeQuery((client: any) =>
+          client.query(
+            `INSERT INTO context_embeddings (
+              id,
+              company_id,
+              type,
+              location,
+              original_location,
+              content,
+              name,
+              embedding,
+              is_chunk,
+              created_at,
+              updated_at
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())
+            ON CONFLICT (id, type, location) DO UPDATE SET
+              content = EXCLUDED.content,
+              embedding = EXCLUDED.embedding,
+              updated_at = NOW()`,
+            [
+              isChunked ? `${id}-${index}` : id,
+              "olas",
+              "abi",
+              location,
+              implementationAddress
+                ? getChainExplorerUrl(
+                    getChainId(id.split("-")[1] || "mainnet"),
+                    implementationAddress
+                  )
+                : null,
+              content,
+              id.split("-")[0],
+              embedding,
+              isChunked,
+            ]
+          )
+        )
+      )
+    );
   } catch (error) {
-    console.error(`[ABI] Database error storing ABI for ${id}:`, {
+    console.error(`[ABI] Error storing ABI embeddings for ${id}:`, {
       error: error instanceof Error ? error.message : "Unknown error",
-      stack: error instanceof Error ? error.stack : undefined,
-      details: {
-        id,
-        type: "abi",
-        location,
-        isChunked: Array.isArray(embeddings),
-        chunksCount: Array.isArray(embeddings) ? embeddings.length : 0,
-      },
+      location,
     });
-    throw error;
   }
 }
 
@@ -1105,207 +1466,6 @@ export function convertBigIntsToStrings(obj: any): any {
   return replaceBigInts(obj, (v) => String(v));
 }
 
-const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-
-function getRetryDelay(error: any, attempt: number = 0): number {
-  const BASE_DELAY = 12000;
-  const MAX_DELAY = 60000;
-
-  if (axios.isAxiosError(error) && error.response?.headers) {
-    const headers = error.response.headers;
-
-    if (headers["retry-after"]) {
-      const retryAfter = headers["retry-after"];
-
-      if (isNaN(retryAfter as any)) {
-        const retryDate = new Date(retryAfter);
-        if (!isNaN(retryDate.getTime())) {
-          const delay = Math.max(0, retryDate.getTime() - Date.now());
-          console.log(
-            `[ABI] Retry-After (date): ${new Date(
-              retryDate
-            ).toISOString()}, delay: ${delay}ms`
-          );
-          return delay * 1.25;
-        }
-      }
-
-      const secondsDelay = parseInt(retryAfter) * 1000;
-      if (!isNaN(secondsDelay)) {
-        console.log(`[ABI] Retry-After (seconds): ${secondsDelay}ms`);
-        return secondsDelay * 1.25;
-      }
-    }
-
-    if (headers["ratelimit-reset"]) {
-      const resetTimestamp = parseInt(headers["ratelimit-reset"]) * 1000;
-      const delay = Math.max(0, resetTimestamp - Date.now());
-      console.log(`[ABI] Rate limit reset delay: ${delay}ms`);
-      return delay * 1.25;
-    }
-
-    if (error.response.status === 429) {
-      const exponentialDelay = Math.min(
-        MAX_DELAY,
-        BASE_DELAY * Math.pow(2, attempt) * (0.5 + Math.random() * 0.5)
-      );
-      console.log(
-        `[ABI] Rate limit exponential backoff delay: ${exponentialDelay}ms`
-      );
-      return exponentialDelay * 1.25;
-    }
-  }
-
-  // Default exponential backoff for other errors
-  const defaultDelay = Math.min(MAX_DELAY, BASE_DELAY * Math.pow(1.5, attempt));
-  console.log(`[ABI] Default delay: ${defaultDelay}ms`);
-  return defaultDelay;
-}
-
-function isTimeoutError(error: any): boolean {
-  return (
-    axios.isAxiosError(error) &&
-    (error.code === "ECONNABORTED" || error.message.includes("timeout"))
-  );
-}
-
-async function fetchWithRetry(
-  url: string,
-  retries = MAX_RETRIES,
-  timeout = INITIAL_TIMEOUT
-): Promise<any> {
-  let lastError: any;
-  let currentTimeout = timeout;
-
-  for (let i = 0; i < retries; i++) {
-    try {
-      const response = await axios.get(url, {
-        timeout: currentTimeout,
-        headers: {
-          Accept: "application/json",
-        },
-      });
-      return response;
-    } catch (error) {
-      lastError = error;
-
-      if (axios.isAxiosError(error)) {
-        if (error.response?.status === 400) {
-          throw error;
-        }
-
-        const status = error.response?.status;
-        const headers = error.response?.headers;
-
-        const isTimeout =
-          error.code === "ECONNABORTED" || error.message.includes("timeout");
-        const isRateLimit = status === 429;
-
-        console.error(`[ABI] HTTP error fetching ABI from ${url}:`, {
-          status,
-          headers: {
-            "retry-after": headers?.["retry-after"],
-            "ratelimit-reset": headers?.["ratelimit-reset"],
-            "ratelimit-remaining": headers?.["ratelimit-remaining"],
-          },
-          message: error.message,
-          code: error.code,
-          url: error.config?.url,
-        });
-
-        if (!isTimeout && !isRateLimit) {
-          throw error;
-        }
-
-        const waitTime = isRateLimit
-          ? getRetryDelay(error, i)
-          : isTimeout
-          ? Math.min(currentTimeout * TIMEOUT_MULTIPLIER, MAX_TIMEOUT) -
-            currentTimeout
-          : INITIAL_RETRY_DELAY;
-
-        const remainingAttempts = retries - i - 1;
-
-        if (isTimeout) {
-          console.log(
-            `[ABI] Timeout fetching ABI from ${url}. ` +
-              `Attempt ${i + 1}/${retries}. ` +
-              `Increasing timeout from ${currentTimeout}ms to ${Math.min(
-                currentTimeout * TIMEOUT_MULTIPLIER,
-                MAX_TIMEOUT
-              )}ms. ` +
-              `(${remainingAttempts} attempts remaining)`
-          );
-          currentTimeout = Math.min(
-            currentTimeout * TIMEOUT_MULTIPLIER,
-            MAX_TIMEOUT
-          );
-        } else if (isRateLimit) {
-          console.log(
-            `[ABI] Rate limited by abidata.net. Attempt ${i + 1}/${retries}. ` +
-              `Waiting ${Math.round(waitTime / 1000)}s... ` +
-              `(${remainingAttempts} attempts remaining)`
-          );
-        } else {
-          console.log(
-            `[ABI] Error fetching ABI from ${url}. ` +
-              `Attempt ${i + 1}/${retries}. ` +
-              `Status: ${status}. Error: ${error.message}. ` +
-              `Waiting ${Math.round(waitTime / 1000)}s... ` +
-              `(${remainingAttempts} attempts remaining)`
-          );
-        }
-
-        await wait(waitTime);
-        continue;
-      } else {
-        // Non-Axios error
-        console.error(`[ABI] Non-HTTP error fetching ABI from ${url}:`, {
-          error:
-            error instanceof Error
-              ? {
-                  message: error.message,
-                  stack: error.stack,
-                  name: error.name,
-                }
-              : "Unknown error type",
-          type: typeof error,
-        });
-      }
-    }
-  }
-
-  const errorDetails =
-    lastError instanceof Error
-      ? {
-          message: lastError.message,
-          stack: lastError.stack,
-          name: lastError.name,
-          type: typeof lastError,
-          isAxiosError: axios.isAxiosError(lastError),
-          status: axios.isAxiosError(lastError)
-            ? lastError.response?.status
-            : undefined,
-          code: axios.isAxiosError(lastError) ? lastError.code : undefined,
-        }
-      : {
-          error: lastError,
-        };
-
-  console.error(
-    `[ABI] Failed after ${retries} retries for ${url}. Error details:`,
-    errorDetails
-  );
-
-  throw new Error(
-    `Failed after ${retries} retries. Error: ${
-      lastError instanceof Error
-        ? lastError.message
-        : JSON.stringify(errorDetails)
-    }`
-  );
-}
-
 export const formatTransactionLogs = (
   hash: string,
   decodedLogs: any[]
@@ -0,0 +1,179 @@
+import { Context } from "ponder:registry";
+import { InnerCall } from "ponder:schema";
+import {
+  decodeFunctionData,
+  Hex,
+  hexToBigInt,
+  hexToNumber,
+  parseAbi,
+  size,
+  sliceHex,
+} from "viem";
+
+import { GnosisSafeABI } from "../abis/GnosisSafe";
+import { convertBigIntsToStrings } from ".";
+import { SIGNATURES } from "./constants";
+
+const MULTI_SEND_ABI = parseAbi(["function multiSend(bytes transactions)"]);
+
+// Guards against maliciously nested Safe and MultiSend payloads
+const MAX_DEPTH = 8;
+
+export const OPERATION = { CALL: 0, DELEGATE_CALL: 1 } as const;
+
+export interface UnpackedCall {
+  parentPath: string | null;
+  path: string;
+  depth: number;
+  from: string;
+  to: string;
+  value: bigint;
+  operation: number;
+  data: Hex;
+}
+
+type DecodeCall = (
+  input: string,
+  to: string
+) => Promise<{ name: string } | null>;
+
+/**
+ * Splits a MultiSend payload, which packs each call as
+ * operation (1 byte), to (20), value (32), data length (32) and data.
+ */
+export function decodeMultiSendTransactions(transactions: Hex) {
+  const calls: { operation: number; to: string; value: bigint; data: Hex }[] =
+    [];
+  const length = size(transactions);
+  let offset = 0;
+
+  while (offset + 85 <= length) {
+    const operation = hexToNumber(sliceHex(transactions, offset, offset + 1));
+    const to = sliceHex(transactions, offset + 1, offset + 21).toLowerCase();
+    const value = hexToBigInt(sliceHex(transactions, offset + 21, offset + 53));
+    const dataLength = hexToNumber(
+      sliceHex(transactions, offset + 53, offset + 85)
+    );
+    const data =
+      dataLength > 0
+        ? sliceHex(transactions, offset + 85, offset + 85 + dataLength)
+        : "0x";
+
+    calls.push({ operation, to, value, data });
+    offset += 85 + dataLength;
+  }
+
+  return calls;
+}
+
+/**
+ * Walks Safe execTransaction and MultiSend payloads, returning every wrapped
+ * call in depth-first order. `from` is the account the code at `to` runs as.
+ * Paths are dot separated positions, so "0.2" is the third call of the batch
+ * executed by the first Safe transaction.
+ */
+export function unpackCalls(
+  from: string,
+  to: string,
+  data: Hex,
+  parentPath: string | null = null,
+  depth = 0
+): UnpackedCall[] {
+  if (depth >= MAX_DEPTH || size(data) < 4) return [];
+
+  const selector = sliceHex(data, 0, 4);
+  let children: { operation: number; to: string; value: bigint; data: Hex }[];
+
+  try {
+    if (selector === SIGNATURES.SAFE.EXEC_TRANSACTION) {
+      const { args } = decodeFunctionData({ abi: GnosisSafeABI, data });
+      const [innerTo, value, innerData, operation] = args as unknown as [
+        string,
+        bigint,
+        Hex,
+        number,
+      ];
+      children = [
+        { operation, to: innerTo.toLowerCase(), value, data: innerData },
+      ];
+    } else if (selector === SIGNATURES.SAFE.MULTI_SEND) {
+      const { args } = decodeFunctionData({ abi: MULTI_SEND_ABI, data });
+      children = decodeMultiSendTransactions(args[0]);
+    } else {
+      return [];
+    }
+  } catch (error) {
+    console.error(`[INNER] Failed to unpack call to ${to}:`, error);
+    return [];
+  }
+
+  return children.flatMap((child, index) => {
+    const path = parentPath === null ? `${index}` : `${parentPath}.${index}`;
+    const call: UnpackedCall = {
+      parentPath,
+      path,
+      depth: depth + 1,
+      from,
+      ...child,
+    };
+    // A delegatecall runs the target's code in the current account, e.g. a
+    // Safe delegatecalling MultiSend still sends the batched calls itself
+    const account =
+      child.operation === OPERATION.DELEGATE_CALL ? from : child.to;
+
+    return [
+      call,
+      ...unpackCalls(account, child.to, child.data, path, depth + 1),
+    ];
+  });
+}
+
+export async function recordInnerCalls(
+  context: Context,
+  event: any,
+  decodeCall: DecodeCall
+): Promise<UnpackedCall[]> {
+  const to = event.transaction.to?.toLowerCase();
+  if (!to) return [];
+
+  const chain = context.network.name;
+  const hash = event.transaction.hash;
+  const calls = unpackCalls(to, to, event.transaction.input);
+
+  for (const call of calls) {
+    const id = `${chain}-${hash}-${call.path}`;
+    const decodedFunction = await decodeCall(call.data, call.to);
+
+    try {
+      await context.db
+        .insert(InnerCall)
+        .values({
+          id,
+          chain,
+          transactionHash: hash,
+          parentId:
+            call.parentPath === null
+              ? null
+              : `${chain}-${hash}-${call.parentPath}`,
+          path: call.path,
+          depth: call.depth,
+          from: call.from,
+          to: call.to,
+          value: call.value,
+          operation: call.operation,
+          data: call.data,
+          functionName: decodedFunction?.name ?? null,
+          decodedFunction: decodedFunction
+            ? JSON.stringify(convertBigIntsToStrings(decodedFunction))
+            : null,
+          blockNumber: Number(event.block.number),
+          timestamp: Number(event.block.timestamp),
+        })
+        .onConflictDoNothing();
+    } catch (error) {
+      console.error(`[INNER] Error inserting inner call ${id}:`, error);
+    }
+  }
+
+  return calls;
+}
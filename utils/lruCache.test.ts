@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+
+import { LruCache } from "./lruCache";
+
+describe("LruCache", () => {
+  it("drops the least recently used entry when full", () => {
+    const cache = new LruCache<string, number>(2);
+    cache.set("a", 1).set("b", 2);
+    cache.get("a");
+    cache.set("c", 3);
+
+    expect(cache.has("a")).toBe(true);
+    expect(cache.has("b")).toBe(false);
+    expect(cache.has("c")).toBe(true);
+    expect(cache.size).toBe(2);
+  });
+
+  it("keeps the size when overwriting an entry", () => {
+    const cache = new LruCache<string, number>(2);
+    cache.set("a", 1).set("b", 2).set("a", 3);
+
+    expect(cache.get("a")).toBe(3);
+    expect(cache.get("b")).toBe(2);
+    expect(cache.size).toBe(2);
+  });
+
+  it("caches falsy values", () => {
+    const cache = new LruCache<string, null>(1);
+    cache.set("a", null);
+
+    expect(cache.has("a")).toBe(true);
+    expect(cache.get("a")).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * An in-process cache holding at most `maxSize` entries. Reading or writing
+ * an entry makes it the most recent, and the least recent one is dropped
+ * once the cache is full.
+ */
+export class LruCache<K, V> {
+  private entries = new Map<K, V>();
+
+  constructor(private readonly maxSize: number) {}
+
+  has(key: K): boolean {
+    return this.entries.has(key);
+  }
+
+  get(key: K): V | undefined {
+    if (!this.entries.has(key)) return undefined;
+
+    // Maps iterate in insertion order, so re-inserting marks it most recent
+    const value = this.entries.get(key) as V;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  set(key: K, value: V): this {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    if (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next();
+      if (!oldest.done) this.entries.delete(oldest.value);
+    }
+    return this;
+  }
+
+  delete(key: K): boolean {
+    return this.entries.delete(key);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,232 @@
+import { Context } from "ponder:registry";
+import { MarketTrade } from "ponder:schema";
+import { parseAbi } from "viem";
+
+import {
+  erc20Transfer,
+  fpmmBuy,
+  fpmmFundingAdded,
+  fpmmFundingRemoved,
+  fpmmSell,
+  payoutRedemption,
+  RawLog,
+} from "./decoders";
+import { LruCache } from "./lruCache";
+import { getTokenMetadata } from "./tokens";
+
+const FPMM_MARKET_ABI = parseAbi([
+  "function collateralToken() view returns (address)",
+  "function conditionIds(uint256) view returns (bytes32)",
+]);
+
+type TradeLog = RawLog & { logIndex: number | null };
+
+interface MarketInfo {
+  conditionId: string | null;
+  collateralToken: string | null;
+}
+
+// A market's condition and collateral never change after creation
+const marketCache = new LruCache<string, MarketInfo>(10_000);
+
+async function getMarketInfo(
+  context: Context,
+  market: string
+): Promise<MarketInfo> {
+  const key = `${context.network.name}-${market}`;
+  const cached = marketCache.get(key);
+  if (cached) return cached;
+
+  try {
+    const [collateralToken, conditionId] = await Promise.all([
+      context.client.readContract({
+        address: market as `0x${string}`,
+        abi: FPMM_MARKET_ABI,
+        functionName: "collateralToken",
+      }),
+      context.client.readContract({
+        address: market as `0x${string}`,
+        abi: FPMM_MARKET_ABI,
+        functionName: "conditionIds",
+        args: [0n],
+      }),
+    ]);
+    const info = {
+      conditionId: conditionId.toLowerCase(),
+      collateralToken: collateralToken.toLowerCase(),
+    };
+    marketCache.set(key, info);
+    return info;
+  } catch (error) {
+    console.error(`[MARKET] Failed to read market info for ${market}:`, error);
+    return { conditionId: null, collateralToken: null };
+  }
+}
+
+/**
+ * FPMMFundingAdded only reports the outcome tokens sent back to the funder,
+ * so the collateral added is taken from the funder's transfers to the market.
+ */
+const sumCollateralTransfers = (
+  logs: TradeLog[],
+  token: string | null,
+  from: string,
+  to: string
+) =>
+  logs.reduce((total, log) => {
+    const transfer = erc20Transfer.decode(log);
+    return transfer &&
+      log.address.toLowerCase() === token &&
+      transfer.from.toLowerCase() === from &&
+      transfer.to.toLowerCase() === to
+      ? total + transfer.value
+      : total;
+  }, 0n);
+
+type MarketTradeValues = Omit<
+  typeof MarketTrade.$inferInsert,
+  | "id"
+  | "chain"
+  | "agentInstanceId"
+  | "transactionHash"
+  | "logIndex"
+  | "blockNumber"
+  | "timestamp"
+>;
+
+async function decodeMarketTrade(
+  context: Context,
+  log: TradeLog,
+  logs: TradeLog[]
+): Promise<MarketTradeValues | null> {
+  const market = log.address.toLowerCase();
+
+  const buy = fpmmBuy.decode(log);
+  if (buy) {
+    return {
+      type: "BUY",
+      trader: buy.buyer.toLowerCase(),
+      market,
+      ...(await getMarketInfo(context, market)),
+      outcomeIndex: Number(buy.outcomeIndex),
+      collateralAmount: buy.investmentAmount,
+      feeAmount: buy.feeAmount,
+      outcomeTokenAmount: buy.outcomeTokensBought,
+    };
+  }
+
+  const sell = fpmmSell.decode(log);
+  if (sell) {
+    return {
+      type: "SELL",
+      trader: sell.seller.toLowerCase(),
+      market,
+      ...(await getMarketInfo(context, market)),
+      outcomeIndex: Number(sell.outcomeIndex),
+      collateralAmount: sell.returnAmount,
+      feeAmount: sell.feeAmount,
+      outcomeTokenAmount: sell.outcomeTokensSold,
+    };
+  }
+
+  const added = fpmmFundingAdded.decode(log);
+  if (added) {
+    const info = await getMarketInfo(context, market);
+    const trader = added.funder.toLowerCase();
+    return {
+      type: "ADD_LIQUIDITY",
+      trader,
+      market,
+      ...info,
+      collateralAmount: sumCollateralTransfers(
+        logs,
+        info.collateralToken,
+        trader,
+        market
+      ),
+      outcomeAmounts: added.amountsAdded.map((amount) => amount.toString()),
+      shares: added.sharesMinted,
+    };
+  }
+
+  const removed = fpmmFundingRemoved.decode(log);
+  if (removed) {
+    return {
+      type: "REMOVE_LIQUIDITY",
+      trader: removed.funder.toLowerCase(),
+      market,
+      ...(await getMarketInfo(context, market)),
+      collateralAmount: removed.collateralRemovedFromFeePool,
+      outcomeAmounts: removed.amountsRemoved.map((amount) => amount.toString()),
+      shares: removed.sharesBurnt,
+    };
+  }
+
+  // Redemptions go through the conditional tokens contract, so they are tied
+  // to markets by condition id rather than market address
+  const redemption = payoutRedemption.decode(log);
+  if (redemption) {
+    return {
+      type: "REDEEM",
+      trader: redemption.redeemer.toLowerCase(),
+      market: null,
+      conditionId: redemption.conditionId.toLowerCase(),
+      collateralToken: redemption.collateralToken.toLowerCase(),
+      collateralAmount: redemption.payout,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Stores the FPMM trades, liquidity changes and conditional token
+ * redemptions in a transaction sent by an agent instance. The trader is
+ * usually the agent's service multisig rather than the instance itself.
+ */
+export async function recordMarketTrades(
+  context: Context,
+  event: {
+    transaction: { hash: string };
+    block: { number: bigint; timestamp: bigint };
+  },
+  agentInstanceId: string,
+  logs: TradeLog[]
+) {
+  const chain = context.network.name;
+  const hash = event.transaction.hash;
+
+  for (const log of logs) {
+    const id = `${chain}-${hash}-${log.logIndex}`;
+
+    try {
+      const trade = await decodeMarketTrade(context, log, logs);
+      if (!trade) continue;
+
+      if (trade.collateralToken) {
+        await getTokenMetadata(
+          context,
+          trade.collateralToken,
+          "ERC20",
+          Number(event.block.number)
+        );
+      }
+
+      await context.db
+        .insert(MarketTrade)
+        .values({
+          id,
+          chain,
+          agentInstanceId,
+          ...trade,
+          transactionHash: hash,
+          logIndex: Number(log.logIndex),
+          blockNumber: Number(event.block.number),
+          timestamp: Number(event.block.timestamp),
+        })
+        .onConflictDoNothing();
+    } catch (error) {
+      console.error(`[MARKET] Error recording market trade ${id}:`, error);
+    }
+  }
+}
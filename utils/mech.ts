@@ -0,0 +1,132 @@
+import { Context } from "ponder:registry";
+import { MechDelivery, MechRequest } from "ponder:schema";
+import { Hex, size } from "viem";
+
+/**
+ * Mechs emit the IPFS hash of the prompt or result either as a bare sha256
+ * digest or as a full multihash. Both are returned as base16 CIDv1 strings,
+ * anything else is kept as hex.
+ */
+export function toIpfsHash(data: Hex): string | null {
+  if (!data || data === "0x") return null;
+
+  const length = size(data);
+  if (length === 32) return `f01701220${data.slice(2)}`;
+  if (length === 34 && data.startsWith("0x1220")) {
+    return `f0170${data.slice(2)}`;
+  }
+  return data;
+}
+
+const getMechRequestId = (chain: string, mech: string, requestId: string) =>
+  `${chain}-${mech}-${requestId}`;
+
+async function recordRequest(
+  context: Context,
+  event: any,
+  agentInstanceId: string,
+  log: any
+) {
+  const chain = context.network.name;
+  const mech = log.address.toLowerCase();
+  const { sender, requestId, data } = log.decoded.decoded.args;
+  const id = getMechRequestId(chain, mech, requestId);
+  const timestamp = Number(event.block.timestamp);
+
+  // Handlers are not awaited, so the delivery may already be stored
+  const delivery = await context.db.find(MechDelivery, { id });
+  const latency = delivery ? delivery.timestamp - timestamp : null;
+
+  await context.db
+    .insert(MechRequest)
+    .values({
+      id,
+      chain,
+      mech,
+      requestId: BigInt(requestId),
+      requester: sender.toLowerCase(),
+      agentInstanceId,
+      promptHash: toIpfsHash(data),
+      deliveryId: delivery ? id : null,
+      latency,
+      transactionHash: event.transaction.hash,
+      blockNumber: Number(event.block.number),
+      timestamp,
+    })
+    .onConflictDoNothing();
+
+  if (delivery && delivery.latency === null) {
+    await context.db.update(MechDelivery, { id }).set({ latency });
+  }
+}
+
+async function recordDelivery(
+  context: Context,
+  event: any,
+  agentInstanceId: string,
+  log: any
+) {
+  const chain = context.network.name;
+  const mech = log.address.toLowerCase();
+  const { sender, requestId, data } = log.decoded.decoded.args;
+  const id = getMechRequestId(chain, mech, requestId);
+  const timestamp = Number(event.block.timestamp);
+
+  const request = await context.db.find(MechRequest, { id });
+  const latency = request ? timestamp - request.timestamp : null;
+
+  await context.db
+    .insert(MechDelivery)
+    .values({
+      id,
+      chain,
+      mech,
+      requestId: BigInt(requestId),
+      deliverer: sender.toLowerCase(),
+      agentInstanceId,
+      resultHash: toIpfsHash(data),
+      latency,
+      transactionHash: event.transaction.hash,
+      blockNumber: Number(event.block.number),
+      timestamp,
+    })
+    .onConflictDoNothing();
+
+  if (request) {
+    await context.db
+      .update(MechRequest, { id })
+      .set({ deliveryId: id, latency });
+  }
+}
+
+/**
+ * Stores the mech requests and deliveries among the decoded logs of a
+ * transaction sent by an agent instance. Requests are matched to deliveries
+ * by mech and request id, so a delivery is only linked when the requester is
+ * an indexed agent instance.
+ */
+export async function recordMechEvents(
+  context: Context,
+  event: any,
+  agentInstanceId: string,
+  decodedLogs: any[]
+) {
+  const mechLogs = decodedLogs.filter(
+    (log) => log.decoded?.decoded?.protocol === "Mech"
+  );
+
+  for (const log of mechLogs) {
+    try {
+      if (log.decoded.decoded.name === "Request") {
+        await recordRequest(context, event, agentInstanceId, log);
+      } else if (log.decoded.decoded.name === "Deliver") {
+        await recordDelivery(context, event, agentInstanceId, log);
+      }
+    } catch (error) {
+      console.error(
+        `[MECH] Error recording ${log.decoded.decoded.name} in ${event.transaction.hash}:`,
+        error
+      );
+    }
+  }
+}
@@ -0,0 +1,312 @@
+import { Context } from "ponder:registry";
+import { Multisig, MultisigTransfer } from "ponder:schema";
+import { Hex, hexToBigInt, hexToNumber, LogTopic, pad, toHex } from "viem";
+
+import { GnosisSafeABI } from "../abis/GnosisSafe";
+import { createChainScopedId } from ".";
+import {
+  erc1155TransferBatch,
+  erc1155TransferSingle,
+  erc20Transfer,
+} from "./decoders";
+import { formatTokenAmount, getTokenMetadata, NATIVE_DECIMALS } from "./tokens";
+import { decodeTokenTransfers } from "./transfers";
+import { TokenTransferData } from "../src/types";
+
+type TransferEvent = {
+  transaction: { hash: Hex };
+  block: { number: bigint; timestamp: bigint };
+};
+
+// Ponder can only filter logs on fixed argument values, so transfers into
+// multisigs are fetched by recipient, a bounded block range at a time. Ranges
+// the RPC rejects, such as for returning too many logs, are halved.
+const INCOMING_TRANSFER_RANGE = 10_000;
+
+// ERC20 and ERC721 Transfers index the recipient as the second argument,
+// ERC1155 transfers as the third
+const INCOMING_TRANSFER_FILTERS = [
+  { topic0: [erc20Transfer.topic0], recipientTopic: 2 },
+  {
+    topic0: [erc1155TransferSingle.topic0, erc1155TransferBatch.topic0],
+    recipientTopic: 3,
+  },
+];
+
+export const getMultisigId = (chain: string, address: string) =>
+  createChainScopedId(chain, address.toLowerCase());
+
+async function readSafeConfig(context: Context, address: `0x${string}`) {
+  try {
+    const [owners, threshold] = await Promise.all([
+      context.client.readContract({
+        address,
+        abi: GnosisSafeABI,
+        functionName: "getOwners",
+      }),
+      context.client.readContract({
+        address,
+        abi: GnosisSafeABI,
+        functionName: "getThreshold",
+      }),
+    ]);
+    return {
+      owners: owners.map((owner) => owner.toLowerCase()),
+      threshold: Number(threshold),
+    };
+  } catch (error) {
+    console.error(`[MULTISIG] Failed to read Safe config for ${address}:`, error);
+    return { owners: null, threshold: null };
+  }
+}
+
+/**
+ * Links a multisig to the service that deployed it. Services may redeploy
+ * with an existing multisig, in which case the link moves to the new service.
+ */
+export async function upsertMultisig(
+  context: Context,
+  address: `0x${string}`,
+  serviceId: string,
+  event: { block: { number: bigint; timestamp: bigint } }
+) {
+  const chain = context.network.name;
+  const config = await readSafeConfig(context, address);
+
+  await context.db
+    .insert(Multisig)
+    .values({
+      id: getMultisigId(chain, address),
+      chain,
+      address: address.toLowerCase(),
+      serviceId,
+      ...config,
+      blockNumber: Number(event.block.number),
+      timestamp: Number(event.block.timestamp),
+    })
+    .onConflictDoUpdate({ serviceId, ...config });
+}
+
+/**
+ * Returns the multisig row for an event emitted by a Safe, creating a bare
+ * one when the deployment has not been seen yet.
+ */
+export async function getOrCreateMultisig(context: Context, event: any) {
+  const chain = context.network.name;
+  const id = getMultisigId(chain, event.log.address);
+
+  const existing = await context.db.find(Multisig, { id });
+  if (existing) return existing;
+
+  console.warn(`[MULTISIG] Multisig ${id} not linked to a service yet`);
+  await context.db
+    .insert(Multisig)
+    .values({
+      id,
+      chain,
+      address: event.log.address.toLowerCase(),
+      serviceId: null,
+      blockNumber: Number(event.block.number),
+      timestamp: Number(event.block.timestamp),
+    })
+    .onConflictDoNothing();
+  return (await context.db.find(Multisig, { id }))!;
+}
+
+type MultisigTransferData = TokenTransferData & {
+  type: "NATIVE" | "ERC20" | "ERC721" | "ERC1155";
+  from: string;
+  to: string;
+  // Native transfers from batched calls share their execution's log index
+  callPath?: string;
+};
+
+export async function insertMultisigTransfer(
+  context: Context,
+  multisig: typeof Multisig.$inferSelect,
+  transfer: MultisigTransferData,
+  event: TransferEvent
+) {
+  const direction = transfer.to === multisig.address ? "IN" : "OUT";
+  const amount = BigInt(transfer.amount ?? 0);
+  const hash = event.transaction.hash;
+  const suffix = `${transfer.logIndex ?? "native"}${
+    transfer.callPath === undefined ? "" : `-${transfer.callPath}`
+  }`;
+  const id = `${multisig.id}-${hash}-${suffix}-${transfer.tokenId ?? ""}`;
+
+  try {
+    const decimals =
+      transfer.type === "NATIVE"
+        ? NATIVE_DECIMALS
+        : (
+            await getTokenMetadata(
+              context,
+              transfer.token!,
+              transfer.type,
+              Number(event.block.number)
+            )
+          ).decimals;
+
+    await context.db
+      .insert(MultisigTransfer)
+      .values({
+        id,
+        multisigId: multisig.id,
+        serviceId: multisig.serviceId,
+        chain: multisig.chain,
+        direction,
+        type: transfer.type,
+        token: transfer.token ?? null,
+        tokenId: transfer.tokenId ? BigInt(transfer.tokenId) : null,
+        counterparty: direction === "IN" ? transfer.from : transfer.to,
+        amount,
+        formattedAmount: formatTokenAmount(amount, decimals),
+        transactionHash: hash,
+        logIndex: transfer.logIndex ?? null,
+        blockNumber: Number(event.block.number),
+        timestamp: Number(event.block.timestamp),
+      })
+      .onConflictDoNothing();
+  } catch (error) {
+    console.error(`[MULTISIG] Error inserting transfer ${id}:`, error);
+  }
+}
+
+/**
+ * Stores the token transfers in a Safe execution's receipt that move funds in
+ * or out of the multisig. Token transfers into the multisig from other
+ * transactions are stored by recordIncomingTokenTransfers.
+ */
+export async function recordMultisigTokenTransfers(
+  context: Context,
+  multisig: typeof Multisig.$inferSelect,
+  event: TransferEvent
+) {
+  const receipt = await context.client.getTransactionReceipt({
+    hash: event.transaction.hash,
+  });
+
+  const transfers = receipt.logs
+    .flatMap((log) => decodeTokenTransfers(log))
+    .filter(
+      (transfer): transfer is MultisigTransferData =>
+        transfer.type !== "UNKNOWN" &&
+        (transfer.from === multisig.address || transfer.to === multisig.address)
+    );
+
+  for (const transfer of transfers) {
+    await insertMultisigTransfer(context, multisig, transfer, event);
+  }
+}
+
+async function getIncomingTransferLogs(
+  context: Context,
+  address: string,
+  fromBlock: number,
+  toBlock: number
+) {
+  const recipient = pad(address as Hex);
+
+  const logs = await Promise.all(
+    INCOMING_TRANSFER_FILTERS.map(({ topic0, recipientTopic }) => {
+      const topics: LogTopic[] = [topic0, null, null, null];
+      topics[recipientTopic] = recipient;
+
+      return context.client.request({
+        method: "eth_getLogs",
+        params: [
+          {
+            fromBlock: toHex(fromBlock),
+            toBlock: toHex(toBlock),
+            topics: topics.slice(0, recipientTopic + 1),
+          },
+        ],
+      });
+    })
+  );
+  return logs.flat().filter((log) => !log.removed);
+}
+
+/**
+ * Stores the token transfers into a multisig since it was last scanned, up to
+ * the block of an event it emitted. Token contracts emit these transfers, not
+ * the multisig, so they are fetched by recipient and show up once the
+ * multisig next emits an event. Progress is kept per range, so a scan that
+ * fails resumes where it stopped.
+ */
+export async function recordIncomingTokenTransfers(
+  context: Context,
+  multisig: typeof Multisig.$inferSelect,
+  event: { block: { number: bigint } }
+) {
+  const lastBlock = Number(event.block.number);
+  let fromBlock =
+    (multisig.incomingTransfersBlock ?? multisig.blockNumber - 1) + 1;
+  let range = INCOMING_TRANSFER_RANGE;
+  const timestamps = new Map<bigint, bigint>();
+
+  try {
+    while (fromBlock <= lastBlock) {
+      const toBlock = Math.min(fromBlock + range - 1, lastBlock);
+
+      let logs: Awaited<ReturnType<typeof getIncomingTransferLogs>>;
+      try {
+        logs = await getIncomingTransferLogs(
+          context,
+          multisig.address,
+          fromBlock,
+          toBlock
+        );
+      } catch (error) {
+        if (toBlock === fromBlock) throw error;
+
+        range = Math.ceil((toBlock - fromBlock + 1) / 2);
+        console.warn(
+          `[MULTISIG] Splitting blocks ${fromBlock}-${toBlock} for incoming transfers of ${multisig.id}:`,
+          error instanceof Error ? error.message : error
+        );
+        continue;
+      }
+
+      for (const log of logs) {
+        if (!log.blockNumber || !log.transactionHash) continue;
+
+        const blockNumber = hexToBigInt(log.blockNumber);
+        let timestamp = timestamps.get(blockNumber);
+        if (timestamp === undefined) {
+          ({ timestamp } = await context.client.getBlock({ blockNumber }));
+          timestamps.set(blockNumber, timestamp);
+        }
+        const transfers = decodeTokenTransfers({
+          address: log.address,
+          data: log.data,
+          topics: log.topics,
+          logIndex: log.logIndex ? hexToNumber(log.logIndex) : null,
+        }).filter(
+          (transfer): transfer is MultisigTransferData =>
+            transfer.type !== "UNKNOWN" && transfer.to === multisig.address
+        );
+
+        for (const transfer of transfers) {
+          await insertMultisigTransfer(context, multisig, transfer, {
+            transaction: { hash: log.transactionHash },
+            block: { number: blockNumber, timestamp },
+          });
+        }
+      }
+
+      await context.db
+        .update(Multisig, { id: multisig.id })
+        .set({ incomingTransfersBlock: toBlock });
+
+      fromBlock = toBlock + 1;
+      range = Math.min(range * 2, INCOMING_TRANSFER_RANGE);
+    }
+  } catch (error) {
+    console.error(
+      `[MULTISIG] Error recording incoming transfers for ${multisig.id}:`,
+      error
+    );
+  }
+}
@@ -4,15 +4,25 @@ import dotenv from "dotenv";
 
 dotenv.config();
 
+export const EMBEDDING_DIMENSIONS = 512;
+
+// "stub" swaps OpenAI for a deterministic local embedding so search and
+// storage can be exercised without network access or an API key
+const embeddingProvider = process.env.EMBEDDING_PROVIDER || "openai";
+const useStubEmbeddings = embeddingProvider === "stub";
+
 // Initialize OpenAI client only if ABI database is configured
 const canUseAbiDb = !!process.env.ABI_DATABASE_URL;
-const openai = canUseAbiDb
-  ? new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    })
-  : null;
-
-if (!canUseAbiDb) {
+const openai =
+  canUseAbiDb && !useStubEmbeddings
+    ? new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY,
+      })
+    : null;
+
+if (useStubEmbeddings) {
+  console.debug("[OpenAI] Using local stub embeddings");
+} else if (!canUseAbiDb) {
   console.debug("[OpenAI] ABI database not configured, embeddings will be disabled");
 }
 
@@ -282,8 +292,44 @@ async function withRetry<T>(
   throw new Error("Failed after all retries");
 }
 
+// Hashes each word into a signed bucket and normalizes the result, so texts
+// sharing words end up close together under cosine distance
+export function createStubEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  const words = text.toLowerCase().match(/[a-z0-9_]+/g) ?? [];
+
+  for (const word of words) {
+    let hash = 2166136261;
+    for (let i = 0; i < word.length; i++) {
+      hash = Math.imul(hash ^ word.charCodeAt(i), 16777619) >>> 0;
+    }
+    vector[hash % EMBEDDING_DIMENSIONS]! += hash & 1 ? 1 : -1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+// Returns the embedding in pgvector's SQL format, or null when no provider
+// is available
+async function createEmbedding(input: string): Promise<string | null> {
+  if (useStubEmbeddings) {
+    return pgvector.toSql(createStubEmbedding(input));
+  }
+  if (!openai) {
+    console.debug("[OpenAI] ABI database not configured, skipping embedding");
+    return null;
+  }
+  const response = await openai.embeddings.create({
+    model: "text-embedding-3-small",
+    input,
+    dimensions: EMBEDDING_DIMENSIONS,
+  });
+  return pgvector.toSql(response.data?.[0]?.embedding);
+}
+
 // Cache for embeddings
-const embeddingCache = new Map<string, number[]>();
+const embeddingCache = new Map<string, string>();
 
 // Modify generateEmbeddingWithRetry to use batching
 export async function generateEmbeddingWithRetry(
@@ -307,16 +353,7 @@ export async function generateEmbeddingWithRetry(
       const batchPromises = batch.map((chunk) =>
         withRetry(async () => {
           if (!chunk) return null;
-          if (!openai) {
-            console.debug("[OpenAI] ABI database not configured, skipping chunk embedding");
-            return null;
-          }
-          const response = await openai.embeddings.create({
-            model: "text-embedding-3-small",
-            input: chunk,
-            dimensions: 512,
-          });
-          return pgvector.toSql(response.data?.[0]?.embedding);
+          return createEmbedding(chunk);
         }, options)
       );
 
@@ -337,21 +374,13 @@ export async function generateEmbeddingWithRetry(
     }
     return embeddings;
   } else {
-    const embedding = await withRetry(async () => {
-      if (!openai) {
-        console.debug("[OpenAI] ABI database not configured, skipping embedding");
-        return null;
-      }
-      const response = await openai.embeddings.create({
-        model: "text-embedding-3-small",
-        input: text,
-        dimensions: 512,
-      });
-      return pgvector.toSql(response.data?.[0]?.embedding);
-    }, options);
+    const embedding = await withRetry(
+      async () => createEmbedding(text),
+      options
+    );
 
     // Cache the result
-    embeddingCache.set(text, embedding);
+    if (embedding) embeddingCache.set(text, embedding);
     return embedding;
   }
 }
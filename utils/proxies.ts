@@ -0,0 +1,133 @@
+import { formatAbiItem } from "viem/utils";
+
+import { AbiSelector, getAbiSelectors } from "./signatures";
+
+// EIP-1167 minimal proxy runtime code, and the shorter variant by 0age
+const MINIMAL_PROXY_PATTERNS = [
+  /^0x363d3d373d3d3d363d73([0-9a-f]{40})5af43d82803e903d91602b57fd5bf3/,
+  /^0x3d3d3d3d363d3d37363d73([0-9a-f]{40})5af43d3d93803e602a57fd5bf3/,
+];
+
+// Safe proxies answer masterCopy() straight from their bytecode, comparing
+// the calldata against the selector pushed as a 32 byte word
+const SAFE_MASTER_COPY_PUSH = `7fa619486e${"0".repeat(56)}`;
+
+export const BEACON_ABI = [
+  {
+    inputs: [],
+    name: "implementation",
+    outputs: [{ type: "address", name: "" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+// EIP-2535 loupe function listing every facet of a diamond
+export const DIAMOND_LOUPE_ABI = [
+  {
+    inputs: [],
+    name: "facetAddresses",
+    outputs: [{ type: "address[]", name: "facetAddresses_" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const DIAMOND_FUNCTIONS = new Set([
+  "diamondCut",
+  "facets",
+  "facetAddresses",
+  "facetAddress",
+  "facetFunctionSelectors",
+]);
+
+/**
+ * Returns the implementation an EIP-1167 clone delegates to, read from the
+ * address embedded in its runtime code.
+ */
+export function getMinimalProxyImplementation(
+  bytecode: string | null | undefined
+): string | null {
+  if (!bytecode) return null;
+
+  const code = bytecode.toLowerCase();
+  for (const pattern of MINIMAL_PROXY_PATTERNS) {
+    const match = code.match(pattern);
+    if (match?.[1]) return `0x${match[1]}`;
+  }
+  return null;
+}
+
+export function isSafeProxyBytecode(bytecode: string | null | undefined) {
+  return Boolean(bytecode?.toLowerCase().includes(SAFE_MASTER_COPY_PUSH));
+}
+
+export function isDiamondAbi(abi: any[]): boolean {
+  return abi.some(
+    (item) => item.type === "function" && DIAMOND_FUNCTIONS.has(item.name)
+  );
+}
+
+export interface SelectorCollision {
+  selector: string;
+  kind: AbiSelector["kind"];
+  kept: string;
+  dropped: string;
+}
+
+export interface MergedAbi {
+  abi: unknown[];
+  collisions: SelectorCollision[];
+}
+
+const abiItemKey = (item: any): string => {
+  try {
+    return formatAbiItem(item);
+  } catch {
+    // An ABI has at most one constructor, fallback and receive
+    return ["constructor", "fallback", "receive"].includes(item?.type)
+      ? item.type
+      : JSON.stringify(item);
+  }
+};
+
+/**
+ * Combines several ABIs into one, in order of precedence. Items declared
+ * more than once, such as the loupe functions every facet inherits, are
+ * kept once. A different item sharing the selector of one already kept
+ * cannot be told apart when decoding, so it is dropped and reported as a
+ * collision.
+ */
+export function mergeAbis(abis: unknown[][]): MergedAbi {
+  const merged = new Map<string, unknown>();
+  const selectors = new Map<string, AbiSelector>();
+  const collisions: SelectorCollision[] = [];
+
+  for (const abi of abis) {
+    for (const item of abi) {
+      const key = abiItemKey(item);
+      if (merged.has(key)) continue;
+
+      const [selector] = getAbiSelectors([item]);
+      if (selector) {
+        // Functions and errors share 4 byte selectors, but decode different data
+        const selectorKey = `${selector.kind}:${selector.selector}`;
+        const existing = selectors.get(selectorKey);
+        if (existing) {
+          collisions.push({
+            selector: selector.selector,
+            kind: selector.kind,
+            kept: existing.signature,
+            dropped: selector.signature,
+          });
+          continue;
+        }
+        selectors.set(selectorKey, selector);
+      }
+
+      merged.set(key, item);
+    }
+  }
+
+  return { abi: [...merged.values()], collisions };
+}
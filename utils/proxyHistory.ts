@@ -0,0 +1,73 @@
+import { Context } from "ponder:registry";
+
+import { recordImplementation } from "./abiStore";
+import { BEACON_ABI } from "./proxies";
+
+async function readBeaconImplementation(
+  context: Context,
+  beacon: `0x${string}`,
+  blockNumber: bigint
+): Promise<string | null> {
+  try {
+    return await context.client.readContract({
+      address: beacon,
+      abi: BEACON_ABI,
+      functionName: "implementation",
+      blockNumber,
+    });
+  } catch (error) {
+    console.debug(`[IMP] Beacon ${beacon} has no implementation():`, {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return null;
+  }
+}
+
+/**
+ * Adds the EIP-1967 upgrades among the decoded logs of a transaction to the
+ * implementation history, so calls before and after an upgrade are decoded
+ * with the ABI that was live at their block.
+ */
+export async function recordProxyUpgrades(
+  context: Context,
+  event: any,
+  decodedLogs: any[]
+) {
+  const upgradeLogs = decodedLogs.filter(
+    (log) => log.decoded?.decoded?.protocol === "Proxy"
+  );
+
+  for (const log of upgradeLogs) {
+    try {
+      const { name, args } = log.decoded.decoded;
+      const implementationAddress =
+        name === "BeaconUpgraded"
+          ? await readBeaconImplementation(
+              context,
+              args.beacon,
+              event.block.number
+            )
+          : args.implementation;
+
+      if (!implementationAddress) continue;
+
+      console.log(
+        `[IMP] ${log.address} upgraded to ${implementationAddress} at block ${event.block.number}`
+      );
+
+      await recordImplementation({
+        address: log.address,
+        chain: context.network.name,
+        blockNumber: Number(event.block.number),
+        implementationAddress,
+        source: "event",
+        transactionHash: event.transaction.hash,
+      });
+    } catch (error) {
+      console.error(
+        `[IMP] Error recording upgrade in ${event.transaction.hash}:`,
+        error
+      );
+    }
+  }
+}
@@ -0,0 +1,193 @@
+import { Context } from "ponder:registry";
+import { Service, ServiceStateTransition } from "ponder:schema";
+import { getChainId } from ".";
+
+type ServiceStateValue = NonNullable<(typeof Service.$inferSelect)["state"]>;
+
+interface TransitionEvent {
+  name: string;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+// Allowed moves between service states, following the ServiceRegistry
+// lifecycle: registration is activated, agent instances fill the slots, the
+// multisig is deployed, and a terminated service returns to pre-registration
+// once every operator has unbonded
+export const SERVICE_STATE_TRANSITIONS: Record<
+  ServiceStateValue,
+  readonly ServiceStateValue[]
+> = {
+  UNREGISTERED: ["ACTIVE"],
+  ACTIVE: ["REGISTERED", "TERMINATED"],
+  REGISTERED: ["DEPLOYED", "TERMINATED"],
+  AGENT_INSTANCES: ["DEPLOYED", "TERMINATED"],
+  DEPLOYED: ["TERMINATED"],
+  TERMINATED: ["UNREGISTERED"],
+};
+
+export const getTransitionEvent = (
+  name: string,
+  event: {
+    block: { number: bigint; timestamp: bigint };
+    transaction: { hash: string };
+    log: { logIndex: number };
+  }
+): TransitionEvent => ({
+  name,
+  blockNumber: Number(event.block.number),
+  timestamp: Number(event.block.timestamp),
+  transactionHash: event.transaction.hash,
+  logIndex: event.log.logIndex,
+});
+
+export const isValidServiceStateTransition = (
+  from: ServiceStateValue,
+  to: ServiceStateValue
+): boolean => SERVICE_STATE_TRANSITIONS[from].includes(to);
+
+export const createDefaultService = (
+  serviceId: string,
+  chain: string,
+  blockNumber: number,
+  timestamp: number,
+  configHash?: string | null
+) => ({
+  id: serviceId,
+  chain,
+  securityDeposit: 0n,
+  multisig: "0x" as `0x${string}`,
+  configHash,
+  threshold: 0,
+  maxNumAgentInstances: 0,
+  numAgentInstances: 0,
+  state: "UNREGISTERED" as const,
+  blockNumber,
+  chainId: getChainId(chain),
+  name: null,
+  description: null,
+  image: null,
+  codeUri: null,
+  metadataURI: null,
+  packageHash: null,
+  metadataHash: configHash,
+  timestamp,
+  owner: null,
+});
+
+export async function recordServiceStateTransition(
+  context: Context,
+  serviceId: string,
+  chain: string,
+  fromState: ServiceStateValue | null,
+  toState: ServiceStateValue,
+  event: TransitionEvent,
+  invalidReason: string | null = null
+) {
+  try {
+    await context.db
+      .insert(ServiceStateTransition)
+      .values({
+        id: `${serviceId}-${event.transactionHash}-${event.logIndex}-${toState}`,
+        serviceId,
+        chain,
+        fromState,
+        toState,
+        isValid: invalidReason === null,
+        invalidReason,
+        eventName: event.name,
+        transactionHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+        timestamp: event.timestamp,
+      })
+      .onConflictDoNothing();
+  } catch (error) {
+    console.error(
+      `Error recording state transition for service ${serviceId}:`,
+      error
+    );
+  }
+}
+
+// Several registry events can move a service in the same block, so they are
+// ordered by log index within it. A later transition from the same log, such
+// as a termination straight back to pre-registration, is still in order.
+const isBeforeLastStateChange = (
+  service: typeof Service.$inferSelect | null,
+  event: TransitionEvent
+) =>
+  service?.stateBlockNumber != null &&
+  (event.blockNumber < service.stateBlockNumber ||
+    (event.blockNumber === service.stateBlockNumber &&
+      event.logIndex < (service.stateLogIndex ?? 0)));
+
+/**
+ * Moves a service to a new state, recording the transition. Transitions that
+ * are not allowed by the lifecycle graph, or that arrive for a log older than
+ * the last applied one, are recorded as invalid and not applied.
+ */
+export async function transitionServiceState(
+  context: Context,
+  serviceId: string,
+  chain: string,
+  toState: ServiceStateValue,
+  event: TransitionEvent
+): Promise<boolean> {
+  let service = await context.db.find(Service, { id: serviceId });
+
+  if (!service) {
+    console.warn(
+      `Service ${serviceId} not found for ${event.name}, creating default`
+    );
+    service = await context.db
+      .insert(Service)
+      .values(
+        createDefaultService(
+          serviceId,
+          chain,
+          event.blockNumber,
+          event.timestamp
+        )
+      )
+      .onConflictDoNothing();
+  }
+
+  const fromState = service?.state ?? "UNREGISTERED";
+  if (fromState === toState) {
+    return false;
+  }
+
+  let invalidReason: string | null = null;
+  if (isBeforeLastStateChange(service, event)) {
+    invalidReason = `out of order: state last changed at block ${service?.stateBlockNumber} log ${service?.stateLogIndex}`;
+  } else if (!isValidServiceStateTransition(fromState, toState)) {
+    invalidReason = `illegal transition ${fromState} -> ${toState}`;
+  }
+
+  await recordServiceStateTransition(
+    context,
+    serviceId,
+    chain,
+    fromState,
+    toState,
+    event,
+    invalidReason
+  );
+
+  if (invalidReason) {
+    console.warn(
+      `[STATE] Rejected ${event.name} for service ${serviceId}: ${invalidReason}`
+    );
+    return false;
+  }
+
+  await context.db.update(Service, { id: serviceId }).set({
+    state: toState,
+    stateBlockNumber: event.blockNumber,
+    stateLogIndex: event.logIndex,
+  });
+
+  return true;
+}
@@ -0,0 +1,238 @@
+import {
+  AbiEvent,
+  AbiFunction,
+  AbiItem,
+  AbiParameter,
+  decodeEventLog,
+  decodeFunctionData,
+  Hex,
+  parseAbiItem,
+  toEventSelector,
+  toFunctionSelector,
+} from "viem";
+
+import { LruCache } from "./lruCache";
+import seedSignatures from "./signatures.json";
+
+type SignatureOrigin = "seed" | "abi";
+
+type AbiError = Extract<AbiItem, { type: "error" }>;
+
+interface SignatureCandidate<T> {
+  item: T;
+  origin: SignatureOrigin;
+}
+
+export interface GuessedDecode {
+  name: string;
+  args: unknown;
+  signature: string;
+  source: "signature-guessed";
+  confidence: number;
+  candidates: number;
+}
+
+// Even a lone candidate is a guess, the contract may use another signature
+// sharing the same selector
+const MAX_GUESS_CONFIDENCE = 0.9;
+
+const functions = new Map<
+  string,
+  Map<string, SignatureCandidate<AbiFunction>>
+>();
+const events = new Map<string, Map<string, SignatureCandidate<AbiEvent>>>();
+// Keys of the ABIs learned so far, an evicted one is merely learned again
+const learnedAbis = new LruCache<string, true>(10_000);
+
+// Parameter names vary between ABIs, only the types and indexing matter
+const parameterKey = (parameter: AbiParameter): string => {
+  const components =
+    "components" in parameter && parameter.components
+      ? `(${parameter.components.map(parameterKey).join(",")})`
+      : "";
+  const indexed = "indexed" in parameter && parameter.indexed ? " indexed" : "";
+  return `${parameter.type}${components}${indexed}`;
+};
+
+const signatureKey = (item: AbiFunction | AbiEvent | AbiError) =>
+  `${item.name}(${item.inputs.map(parameterKey).join(",")})`;
+
+function addCandidate<T extends AbiFunction | AbiEvent>(
+  store: Map<string, Map<string, SignatureCandidate<T>>>,
+  selector: string,
+  item: T,
+  origin: SignatureOrigin
+) {
+  const candidates = store.get(selector) ?? new Map();
+  const key = signatureKey(item);
+  if (!candidates.has(key)) {
+    candidates.set(key, { item, origin });
+    store.set(selector, candidates);
+  }
+}
+
+function addAbiItem(item: any, origin: SignatureOrigin) {
+  try {
+    if (item?.type === "function") {
+      addCandidate(functions, toFunctionSelector(item), item, origin);
+    } else if (item?.type === "event" && !item.anonymous) {
+      addCandidate(events, toEventSelector(item), item, origin);
+    }
+  } catch (error) {
+    console.debug(`[SIG] Skipping invalid ABI item ${item?.name}:`, error);
+  }
+}
+
+for (const signature of seedSignatures) {
+  addAbiItem(parseAbiItem(signature), "seed");
+}
+
+/**
+ * Adds the functions and events of a fetched ABI to the signature database.
+ * Each contract is only scanned once per process.
+ */
+export function learnAbiSignatures(abi: unknown, key: string) {
+  if (learnedAbis.has(key) || !Array.isArray(abi)) return;
+  learnedAbis.set(key, true);
+
+  for (const item of abi) {
+    addAbiItem(item, "abi");
+  }
+}
+
+export interface AbiSelector {
+  selector: string;
+  kind: "function" | "event" | "error";
+  signature: string;
+  name: string;
+  item: AbiFunction | AbiEvent | AbiError;
+}
+
+/**
+ * Lists the function, event and error selectors declared by an ABI, keyed
+ * the same way as the signature database.
+ */
+export function getAbiSelectors(abi: unknown): AbiSelector[] {
+  if (!Array.isArray(abi)) return [];
+
+  return abi.flatMap((item): AbiSelector[] => {
+    try {
+      if (item?.type === "function" || item?.type === "error") {
+        // Errors are selected like functions, by the first 4 bytes of the hash
+        const selector = toFunctionSelector({
+          ...item,
+          type: "function",
+          outputs: [],
+          stateMutability: "nonpayable",
+        });
+        return [
+          {
+            selector,
+            kind: item.type,
+            signature: signatureKey(item),
+            name: item.name,
+            item,
+          },
+        ];
+      }
+      if (item?.type === "event" && !item.anonymous) {
+        return [
+          {
+            selector: toEventSelector(item),
+            kind: "event",
+            signature: signatureKey(item),
+            name: item.name,
+            item,
+          },
+        ];
+      }
+    } catch (error) {
+      console.debug(`[SIG] Skipping invalid ABI item ${item?.name}:`, error);
+    }
+    return [];
+  });
+}
+
+// Curated seed signatures win over ones learned from arbitrary contracts
+const sortMatches = <T extends { origin: SignatureOrigin }>(matches: T[]) =>
+  [...matches].sort(
+    (a, b) => Number(b.origin === "seed") - Number(a.origin === "seed")
+  );
+
+const guessConfidence = (matches: number) =>
+  Math.round((MAX_GUESS_CONFIDENCE / matches) * 100) / 100;
+
+/**
+ * Decodes calldata using every known function sharing its selector. The
+ * confidence drops with the number of signatures that decode successfully.
+ */
+export function guessFunctionCall(input: string): GuessedDecode | null {
+  if (!input || input.length < 10) return null;
+
+  const selector = input.slice(0, 10).toLowerCase();
+  const candidates = [...(functions.get(selector)?.values() ?? [])];
+
+  const matches = candidates.flatMap(({ item, origin }) => {
+    try {
+      const { args } = decodeFunctionData({
+        abi: [item],
+        data: input as Hex,
+      });
+      return [{ name: item.name, args, origin }];
+    } catch {
+      return [];
+    }
+  });
+  const [match] = sortMatches(matches);
+  if (!match) return null;
+
+  return {
+    name: match.name,
+    args: match.args,
+    signature: selector,
+    source: "signature-guessed",
+    confidence: guessConfidence(matches.length),
+    candidates: matches.length,
+  };
+}
+
+/**
+ * Decodes a log using every known event sharing its topic0. Candidates must
+ * index as many arguments as the log has topics.
+ */
+export function guessEventLog(log: {
+  data: Hex;
+  topics: readonly Hex[];
+}): GuessedDecode | null {
+  const [topic0] = log.topics;
+  if (!topic0) return null;
+
+  const candidates = [...(events.get(topic0.toLowerCase())?.values() ?? [])];
+
+  const matches = candidates.flatMap(({ item, origin }) => {
+    const indexed = item.inputs.filter((input) => input.indexed).length;
+    if (indexed + 1 !== log.topics.length) return [];
+
+    try {
+      const { args } = decodeEventLog({
+        abi: [item],
+        data: log.data,
+        topics: log.topics as [Hex, ...Hex[]],
+      });
+      return [{ name: item.name, args, origin }];
+    } catch {
+      return [];
+    }
+  });
+  const [match] = sortMatches(matches);
+  if (!match) return null;
+
+  return {
+    name: match.name,
+    args: match.args,
+    signature: topic0,
+    source: "signature-guessed",
+    confidence: guessConfidence(matches.length),
+    candidates: matches.length,
+  };
+}
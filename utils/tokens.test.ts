@@ -0,0 +1,129 @@
+import {
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  erc20Abi,
+} from "viem";
+import { describe, expect, it, vi } from "vitest";
+
+import { formatTokenAmount, getTokenMetadata } from "./tokens";
+
+vi.mock("ponder:schema", () => ({ Token: "token" }));
+
+const TOKEN = "0x9A8e3d0F4C4e7C1F2f5B8f1a3b0c6D6A2e7f8C91";
+
+// What viem throws when a contract reverts a call
+const revert = (functionName: string) =>
+  new ContractFunctionExecutionError(
+    new ContractFunctionRevertedError({
+      abi: erc20Abi,
+      functionName,
+      message: "execution reverted",
+    }),
+    { abi: erc20Abi, functionName }
+  );
+
+// Just enough of a Ponder context for getTokenMetadata: a token table holding
+// at most the given row and a client answering the ERC20 metadata calls
+const createContext = (
+  readContract: (call: { functionName: string }) => Promise<unknown>,
+  stored: unknown = null
+) => {
+  const inserted: unknown[] = [];
+  const updated: unknown[] = [];
+  const context = {
+    network: { name: "gnosis" },
+    db: {
+      find: async () => stored,
+      insert: () => ({
+        values: (row: unknown) => ({
+          onConflictDoNothing: async () => {
+            inserted.push(row);
+          },
+        }),
+      }),
+      update: () => ({
+        set: async (values: unknown) => {
+          updated.push(values);
+        },
+      }),
+    },
+    client: { readContract: vi.fn(readContract) },
+  };
+  return { context: context as any, inserted, updated };
+};
+
+describe("getTokenMetadata", () => {
+  it("stores a token without decimals() with unknown decimals", async () => {
+    const { context, inserted } = createContext(async ({ functionName }) => {
+      if (functionName === "decimals") throw revert(functionName);
+      return functionName === "name" ? "Wrapped Thing" : "WTHG";
+    });
+
+    const metadata = await getTokenMetadata(context, TOKEN, "ERC20", 123);
+
+    expect(metadata).toEqual({
+      standard: "ERC20",
+      name: "Wrapped Thing",
+      symbol: "WTHG",
+      decimals: null,
+    });
+    expect(inserted).toEqual([
+      {
+        address: TOKEN.toLowerCase(),
+        chain: "gnosis",
+        ...metadata,
+        source: "onchain",
+        blockNumber: 123,
+      },
+    ]);
+    expect(formatTokenAmount(10n ** 18n, metadata.decimals)).toBeNull();
+  });
+
+  it("stores nothing when the contract could not be read", async () => {
+    const { context, inserted } = createContext(async ({ functionName }) => {
+      if (functionName === "decimals") throw new Error("request timed out");
+      return functionName === "name" ? "Wrapped Thing" : "WTHG";
+    });
+
+    await expect(
+      getTokenMetadata(context, TOKEN, "ERC20", 123)
+    ).rejects.toThrow("request timed out");
+    expect(inserted).toEqual([]);
+  });
+
+  it("reads decimals again for an ERC20 stored without them", async () => {
+    const stored = {
+      address: TOKEN.toLowerCase(),
+      chain: "gnosis",
+      standard: "ERC20",
+      name: "Wrapped Thing",
+      symbol: "WTHG",
+      decimals: null,
+      source: "onchain",
+      blockNumber: 123,
+    };
+    const { context, updated } = createContext(async () => 18, stored);
+
+    const metadata = await getTokenMetadata(context, TOKEN, "ERC20", 456);
+
+    expect(metadata).toEqual({ ...stored, decimals: 18 });
+    expect(updated).toEqual([{ decimals: 18 }]);
+    expect(context.client.readContract).toHaveBeenCalledTimes(1);
+  });
+
+  it("uses the seed list without reading the contract", async () => {
+    const { context } = createContext(async () => {
+      throw new Error("unexpected call");
+    });
+
+    const metadata = await getTokenMetadata(
+      context,
+      "0xcE11e14225575945b8E6Dc0D4F2dD4C570f79d9f",
+      "ERC20",
+      123
+    );
+
+    expect(metadata).toMatchObject({ symbol: "OLAS", decimals: 18 });
+    expect(context.client.readContract).not.toHaveBeenCalled();
+  });
+});
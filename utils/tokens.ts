@@ -0,0 +1,153 @@
+import { Context } from "ponder:registry";
+import { Token } from "ponder:schema";
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  erc20Abi,
+  formatUnits,
+} from "viem";
+
+import knownTokens from "./tokens.json";
+
+type TokenStandard = (typeof Token.$inferSelect)["standard"];
+
+export interface TokenMetadata {
+  standard: TokenStandard;
+  name: string | null;
+  symbol: string | null;
+  decimals: number | null;
+}
+
+// Every supported chain uses an 18 decimal native currency
+export const NATIVE_DECIMALS = 18;
+
+const SEED_TOKENS = new Map(
+  knownTokens.map((token) => [
+    `${token.chain}-${token.address.toLowerCase()}`,
+    token,
+  ])
+);
+
+export const getSeedToken = (chain: string, address: string) =>
+  SEED_TOKENS.get(`${chain}-${address.toLowerCase()}`);
+
+// Whether a call failed because the contract has no such function, rather
+// than because the RPC could not answer
+const isMissingFunction = (error: unknown) =>
+  error instanceof BaseError &&
+  Boolean(
+    error.walk(
+      (cause) =>
+        cause instanceof ContractFunctionRevertedError ||
+        cause instanceof ContractFunctionZeroDataError
+    )
+  );
+
+async function readTokenField<T>(
+  context: Context,
+  address: `0x${string}`,
+  functionName: "name" | "symbol" | "decimals"
+): Promise<T | null> {
+  try {
+    return (await context.client.readContract({
+      address,
+      abi: erc20Abi,
+      functionName,
+    })) as T;
+  } catch (error) {
+    // ERC721 has no decimals and many ERC1155 tokens expose none of these
+    if (isMissingFunction(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * Returns the metadata for a token, storing it the first time the token is
+ * seen. Well-known tokens come from the bundled seed list, anything else is
+ * read from the contract. Throws without storing anything when the contract
+ * could not be read.
+ */
+export async function getTokenMetadata(
+  context: Context,
+  address: string,
+  standard: TokenStandard,
+  blockNumber: number
+): Promise<TokenMetadata> {
+  const chain = context.network.name;
+  const tokenAddress = address.toLowerCase();
+
+  const existing = await context.db.find(Token, {
+    address: tokenAddress,
+    chain,
+  });
+
+  // A token may revert decimals() only at the block it was first seen, such
+  // as a proxy not initialized yet, so ERC20s stored without are read again
+  if (
+    existing?.standard === "ERC20" &&
+    existing.source === "onchain" &&
+    existing.decimals === null
+  ) {
+    const decimals = await readTokenField<number>(
+      context,
+      tokenAddress as `0x${string}`,
+      "decimals"
+    );
+    if (decimals === null) return existing;
+
+    await context.db
+      .update(Token, { address: tokenAddress, chain })
+      .set({ decimals });
+    return { ...existing, decimals };
+  }
+
+  if (existing) return existing;
+
+  const seed = getSeedToken(chain, tokenAddress);
+  let metadata: TokenMetadata;
+
+  if (seed) {
+    metadata = {
+      standard: seed.standard as TokenStandard,
+      name: seed.name,
+      symbol: seed.symbol,
+      decimals: seed.decimals,
+    };
+  } else {
+    const [name, symbol, decimals] = await Promise.all([
+      readTokenField<string>(context, tokenAddress as `0x${string}`, "name"),
+      readTokenField<string>(context, tokenAddress as `0x${string}`, "symbol"),
+      standard === "ERC20"
+        ? readTokenField<number>(
+            context,
+            tokenAddress as `0x${string}`,
+            "decimals"
+          )
+        : Promise.resolve(standard === "ERC721" ? 0 : null),
+    ]);
+    metadata = { standard, name, symbol, decimals };
+  }
+
+  try {
+    await context.db
+      .insert(Token)
+      .values({
+        address: tokenAddress,
+        chain,
+        ...metadata,
+        source: seed ? "seed" : "onchain",
+        blockNumber,
+      })
+      .onConflictDoNothing();
+  } catch (error) {
+    console.error(`[TOKEN] Error storing metadata for ${tokenAddress}:`, error);
+  }
+
+  return metadata;
+}
+
+export const formatTokenAmount = (
+  amount: bigint,
+  decimals: number | null | undefined
+) => (decimals == null ? null : formatUnits(amount, decimals));
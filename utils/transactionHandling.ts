@@ -1,4 +1,8 @@
-import { checkAndStoreAbi, convertBigIntsToStrings } from ".";
+import {
+  checkAndStoreAbi,
+  convertBigIntsToStrings,
+  createChainScopedId,
+} from ".";
 
 import {
   AgentFromTransaction,
@@ -8,12 +12,51 @@ import {
   AgentInstance,
 } from "ponder:schema";
 
-import { decodeEventLog, decodeFunctionData } from "viem";
+import {
+  BaseError,
+  decodeErrorResult,
+  decodeEventLog,
+  decodeFunctionData,
+  Hex,
+} from "viem";
 
 import { Context } from "ponder:registry";
 import { SIGNATURES } from "./constants";
+import { decodeKnownLog } from "./decoders";
+import { recordInnerCalls } from "./innerCalls";
+import { recordMarketTrades } from "./marketTrades";
+import { recordMechEvents } from "./mech";
+import { recordProxyUpgrades } from "./proxyHistory";
+import { guessEventLog, guessFunctionCall } from "./signatures";
+import { recordTransfers } from "./transfers";
+import { recordUndecodedSignature } from "./undecoded";
 import { eq } from "ponder";
 
+const parseStoredAbi = (contractAbi: any) =>
+  Array.isArray(contractAbi)
+    ? contractAbi
+    : typeof contractAbi === "string"
+    ? JSON.parse(contractAbi)
+    : contractAbi;
+
+/**
+ * Falls back to the signature database, for contracts without an ABI or
+ * whose ABI does not describe the event.
+ */
+const guessDecodedLog = (log: any) => {
+  const guessed = guessEventLog(log);
+  return guessed
+    ? { ...guessed, args: convertBigIntsToStrings(guessed.args) }
+    : null;
+};
+
+const guessDecodedCall = (input: string) => {
+  const guessed = guessFunctionCall(input);
+  return guessed
+    ? { ...guessed, args: convertBigIntsToStrings(guessed.args) }
+    : null;
+};
+
 async function decodeLogWithDetails(
   log: any,
   chainId: number,
@@ -38,17 +81,13 @@ async function decodeLogWithDetails(
         eventSignature,
         rawData: log.data,
         rawTopics: log.topics,
-        decoded: null,
+        decoded: guessDecodedLog(log),
       };
     }
 
     let decodedEvent = null as any;
 
-    const parsedAbi = Array.isArray(contractAbi)
-      ? contractAbi
-      : typeof contractAbi === "string"
-      ? JSON.parse(contractAbi)
-      : contractAbi;
+    const parsedAbi = parseStoredAbi(contractAbi);
 
     try {
       const eventFragment = parsedAbi?.find(
@@ -108,8 +147,10 @@ async function decodeLogWithDetails(
             name: decodedEvent.eventName,
             args: convertBigIntsToStrings(decodedEvent.args),
             signature: eventSignature,
+            source: "abi",
+            confidence: 1,
           }
-        : null,
+        : guessDecodedLog(log),
       rawData: log.data,
       rawTopics: log.topics,
     };
@@ -151,14 +192,10 @@ async function decodeFunctionCall(
 
     if (!contractAbi) {
       console.log(`No ABI found for contract ${to}`);
-      return null;
+      return guessDecodedCall(input);
     }
 
-    const parsedAbi = Array.isArray(contractAbi)
-      ? contractAbi
-      : typeof contractAbi === "string"
-      ? JSON.parse(contractAbi)
-      : contractAbi;
+    const parsedAbi = parseStoredAbi(contractAbi);
 
     try {
       const decoded = decodeFunctionData({
@@ -170,10 +207,12 @@ async function decodeFunctionCall(
         name: decoded.functionName,
         args: convertBigIntsToStrings(decoded.args),
         signature: input.slice(0, 10),
+        source: "abi",
+        confidence: 1,
       };
     } catch (error) {
       console.log(`Failed to decode function data for ${to}:`, error);
-      return null;
+      return guessDecodedCall(input);
     }
   } catch (error) {
     console.error(`Error decoding function call for ${to}:`, error);
@@ -181,6 +220,77 @@ async function decodeFunctionCall(
   }
 }
 
+const formatErrorArg = (value: unknown): string =>
+  Array.isArray(value)
+    ? `[${value.map(formatErrorArg).join(", ")}]`
+    : String(value);
+
+/**
+ * Replays a reverted transaction against the parent block to recover the
+ * revert data, then decodes it with the target's ABI. Error(string) and
+ * Panic(uint256) decode without an ABI, custom errors need the target's ABI.
+ */
+async function getRevertReason(
+  event: any,
+  context: Context,
+  chainId: number,
+  blockNumber: bigint
+): Promise<{ revertReason: string | null; revertData: string | null }> {
+  const to = event.transaction.to?.toLowerCase();
+  let revertData: Hex | undefined;
+
+  try {
+    await context.client.call({
+      account: event.transaction.from,
+      to,
+      data: event.transaction.input,
+      value: event.transaction.value,
+      gas: event.transaction.gas,
+      blockNumber: blockNumber - 1n,
+    });
+    // The replay can succeed when the revert depended on state set earlier
+    // in the same block
+    return { revertReason: null, revertData: null };
+  } catch (error) {
+    if (!(error instanceof BaseError)) {
+      console.error(`[TX] Failed to replay ${event.transaction.hash}:`, error);
+      return { revertReason: null, revertData: null };
+    }
+    const rawError = error.walk(
+      (cause) => typeof (cause as any)?.data === "string"
+    ) as { data?: Hex } | null;
+    revertData = rawError?.data;
+    if (!revertData || revertData === "0x") {
+      return { revertReason: error.shortMessage || null, revertData: null };
+    }
+  }
+
+  try {
+    const contractAbi = to
+      ? await checkAndStoreAbi(to, chainId, context, blockNumber)
+      : null;
+    const decoded = decodeErrorResult({
+      abi: contractAbi ? parseStoredAbi(contractAbi) : [],
+      data: revertData,
+    });
+    const args = (decoded.args ?? []) as unknown[];
+
+    return {
+      revertReason:
+        decoded.errorName === "Error"
+          ? String(args[0])
+          : `${decoded.errorName}(${args.map(formatErrorArg).join(", ")})`,
+      revertData,
+    };
+  } catch (error) {
+    console.log(
+      `[TX] Unable to decode revert data for ${event.transaction.hash}:`,
+      revertData
+    );
+    return { revertReason: null, revertData };
+  }
+}
+
 export async function processTransaction(
   hash: string,
   event: any,
@@ -203,40 +313,59 @@ export async function processTransaction(
       return;
     }
 
+    const chain = context.network?.name;
+    const agentInstanceId = createChainScopedId(
+      chain,
+      isFromTransaction ? fromAddress : toAddress
+    );
+
     if (isFromTransaction) {
       const agent = await context.db.find(AgentInstance, {
-        id: fromAddress.toLowerCase(),
+        id: agentInstanceId,
       });
 
       if (!agent) {
         console.log(
-          `Skipping AgentFromTransaction: Agent ${fromAddress} not found`
+          `Skipping AgentFromTransaction: Agent ${agentInstanceId} not found`
         );
         return;
       }
     } else {
       const agent = await context.db.find(AgentInstance, {
-        id: toAddress.toLowerCase(),
+        id: agentInstanceId,
       });
 
       if (!agent) {
         console.log(
-          `Skipping AgentToTransaction: Agent ${toAddress} not found`
+          `Skipping AgentToTransaction: Agent ${agentInstanceId} not found`
         );
         return;
       }
     }
 
+    const decodeCall = async (data: string, to: string) => {
+      const decoded = await decodeFunctionCall(
+        data,
+        to,
+        chainId,
+        context,
+        blockNumber
+      );
+      if (!decoded) {
+        await recordUndecodedSignature(context, event, "FUNCTION", to, data);
+      }
+      return decoded;
+    };
+
     const decodedFunction = toAddress
-      ? await decodeFunctionCall(
-          input,
-          toAddress.toLowerCase(),
-          chainId,
-          context,
-          blockNumber
-        )
+      ? await decodeCall(input, toAddress.toLowerCase())
       : null;
 
+    const innerCalls = await recordInnerCalls(context, event, decodeCall);
+    const callsMultiSend = [input, ...innerCalls.map((call) => call.data)].some(
+      (data: string) => data.startsWith(SIGNATURES.SAFE.MULTI_SEND)
+    );
+
     const receipt = await context.client.getTransactionReceipt({
       hash: hash as `0x${string}`,
     });
@@ -256,69 +385,28 @@ export async function processTransaction(
       }
 
       const eventSignature = log?.topics[0];
-      let decodedLog = null;
-
-      if (eventSignature === SIGNATURES.ERC20.TRANSFER_EVENT) {
-        decodedLog = {
-          contractAddress: log.address,
-          eventSignature,
-          decoded: {
-            name: "Transfer",
-            args: {
-              from: `0x${log.topics[1]?.slice(26)}`,
-              to: `0x${log.topics[2]?.slice(26)}`,
-              value: convertBigIntsToStrings(log.data),
-            },
-            signature: eventSignature,
-          },
-          rawData: log.data,
-          rawTopics: log.topics,
-        };
-      } else if (eventSignature === SIGNATURES.EVENTS.FPMM_BUY) {
-        const data = log?.data?.slice(2) || "";
-        const investmentAmount = data.slice(0, 64);
-        const feeAmount = data.slice(64, 128);
-        const outcomeTokensBought = data.slice(128, 192);
-
-        decodedLog = {
-          contractAddress: log?.address,
-          eventSignature,
-          decoded: {
-            name: "FPMMBuy",
-            args: {
-              buyer: `0x${log?.topics[1]?.slice(26) || ""}`,
-              outcomeIndex: log?.topics[2] ? parseInt(log?.topics[2], 16) : 0,
-              investmentAmount: BigInt("0x" + investmentAmount).toString(),
-              feeAmount: BigInt("0x" + feeAmount).toString(),
-              outcomeTokensBought: BigInt(
-                "0x" + outcomeTokensBought
-              ).toString(),
-            },
-            signature: eventSignature,
-          },
-          rawData: log?.data,
-          rawTopics: log?.topics || [],
-        };
-        console.log(
-          `[TX] Detected FPMM Buy event in log ${i} from contract ${contractAddress} for transaction ${hash}`,
-          decodedLog
-        );
-      } else {
-        decodedLog = (await decodeLogWithDetails(
+      let decodedLog: any = decodeKnownLog(log);
+
+      if (!decodedLog) {
+        decodedLog = await decodeLogWithDetails(
           log,
           chainId,
           context,
           blockNumber
-        )) as any;
+        );
+      }
+
+      if (!decodedLog?.decoded) {
+        await recordUndecodedSignature(
+          context,
+          event,
+          "EVENT",
+          log.address,
+          eventSignature
+        );
       }
 
       if (decodedLog) {
-        if (decodedLog.decoded?.name === "FPMMBuy") {
-          console.log(
-            `[TX] Decoded log for ${hash} in log ${i} from contract ${contractAddress}`,
-            decodedLog
-          );
-        }
         decodedLogs.push({
           ...log,
           decoded: decodedLog,
@@ -340,15 +428,34 @@ export async function processTransaction(
       value: event.transaction.value.toString(),
       input: input,
       decodedFunction: decodedFunction ? JSON.stringify(decodedFunction) : null,
-      isMultisend: decodedLogs.some(
-        (log) =>
-          log.decoded?.name === "MultiSend" ||
-          log.decoded?.name === "MultisigTransaction"
-      ),
+      isMultisend:
+        callsMultiSend ||
+        decodedLogs.some(
+          (log) =>
+            log.decoded?.name === "MultiSend" ||
+            log.decoded?.name === "MultisigTransaction"
+        ),
       logs: JSON.stringify(convertBigIntsToStrings(decodedLogs)),
       chain: context.network?.name,
     });
 
+    const { revertReason, revertData } =
+      receipt?.status === "reverted"
+        ? await getRevertReason(event, context, chainId, blockNumber)
+        : { revertReason: null, revertData: null };
+
+    // Receipt amounts stay bigint so they can be summed in queries
+    Object.assign(transactionData, {
+      status: receipt?.status ?? null,
+      gasUsed: receipt?.gasUsed ?? null,
+      effectiveGasPrice: receipt?.effectiveGasPrice ?? null,
+      nonce: event.transaction.nonce ?? null,
+      type: receipt?.type ?? event.transaction.type ?? null,
+      contractAddress: receipt?.contractAddress?.toLowerCase() ?? null,
+      revertReason,
+      revertData,
+    });
+
     console.log(
       `Transaction Data logs length for ${hash}: ${
         JSON.parse(transactionData.logs).length
@@ -379,8 +486,8 @@ export async function processTransaction(
     if (isFromTransaction) {
       try {
         await context.db.insert(AgentFromTransaction).values({
-          id: `${fromAddress}-${hash}-from`,
-          agentInstanceId: fromAddress,
+          id: `${agentInstanceId}-${hash}-from`,
+          agentInstanceId,
           transactionHash: hash,
           blockNumber: Number(blockNumber),
           timestamp: Number(event.block.timestamp),
@@ -392,8 +499,8 @@ export async function processTransaction(
     } else if (toAddress) {
       try {
         await context.db.insert(AgentToTransaction).values({
-          id: `${toAddress}-${hash}-to`,
-          agentInstanceId: toAddress.toLowerCase(),
+          id: `${agentInstanceId}-${hash}-to`,
+          agentInstanceId,
           transactionHash: hash,
           blockNumber: Number(blockNumber),
           timestamp: Number(event.block.timestamp),
@@ -427,6 +534,8 @@ export async function processTransaction(
               convertBigIntsToStrings(decodedLog.decoded.decoded.args)
             )
           : null,
+        decodeSource: decodedLog?.decoded?.decoded?.source ?? null,
+        decodeConfidence: decodedLog?.decoded?.decoded?.confidence ?? null,
       };
     });
 
@@ -481,6 +590,14 @@ export async function processTransaction(
       }
     }
 
+    await recordTransfers(context, event, logs);
+    await recordProxyUpgrades(context, event, decodedLogs);
+
+    if (isFromTransaction) {
+      await recordMarketTrades(context, event, agentInstanceId, logs);
+      await recordMechEvents(context, event, agentInstanceId, decodedLogs);
+    }
+
     if (global.gc) {
       global.gc();
     }
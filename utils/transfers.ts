@@ -0,0 +1,185 @@
+import { Context } from "ponder:registry";
+import { AgentInstance, Transfer } from "ponder:schema";
+import { Log as ViemLog } from "viem";
+
+import { createChainScopedId } from ".";
+import { TokenTransferData } from "../src/types";
+import {
+  erc1155TransferBatch,
+  erc1155TransferSingle,
+  erc20Transfer,
+  erc721Transfer,
+} from "./decoders";
+import { formatTokenAmount, getTokenMetadata, NATIVE_DECIMALS } from "./tokens";
+
+type TransferLog = Pick<ViemLog, "address" | "data" | "topics" | "logIndex">;
+
+export function decodeTokenTransfers(log: TransferLog): TokenTransferData[] {
+  const [eventSignature] = log.topics;
+  const token = log.address.toLowerCase();
+  const logIndex = Number(log.logIndex);
+
+  try {
+    // ERC20 and ERC721 share the Transfer topic, the decoders check the
+    // number of indexed arguments
+    const erc20 = erc20Transfer.decode(log);
+    if (erc20) {
+      return [
+        {
+          type: "ERC20",
+          token,
+          from: erc20.from.toLowerCase(),
+          to: erc20.to.toLowerCase(),
+          amount: erc20.value.toString(),
+          logIndex,
+        },
+      ];
+    }
+
+    const erc721 = erc721Transfer.decode(log);
+    if (erc721) {
+      return [
+        {
+          type: "ERC721",
+          token,
+          from: erc721.from.toLowerCase(),
+          to: erc721.to.toLowerCase(),
+          tokenId: erc721.tokenId.toString(),
+          amount: "1",
+          logIndex,
+        },
+      ];
+    }
+
+    const single = erc1155TransferSingle.decode(log);
+    if (single) {
+      return [
+        {
+          type: "ERC1155",
+          token,
+          from: single.from.toLowerCase(),
+          to: single.to.toLowerCase(),
+          tokenId: single.id.toString(),
+          amount: single.value.toString(),
+          logIndex,
+        },
+      ];
+    }
+
+    const batch = erc1155TransferBatch.decode(log);
+    if (batch) {
+      return batch.ids.map((id, index) => ({
+        type: "ERC1155" as const,
+        token,
+        from: batch.from.toLowerCase(),
+        to: batch.to.toLowerCase(),
+        tokenId: id.toString(),
+        amount: (batch.values[index] ?? 0n).toString(),
+        logIndex,
+      }));
+    }
+  } catch (error) {
+    console.error(
+      `[TRANSFER] Failed to decode transfer log ${logIndex} from ${token}:`,
+      error
+    );
+  }
+
+  return [];
+}
+
+async function isAgentInstance(
+  context: Context,
+  chain: string,
+  address: string | undefined
+) {
+  if (!address) return false;
+  const agentInstance = await context.db.find(AgentInstance, {
+    id: createChainScopedId(chain, address),
+  });
+  return !!agentInstance;
+}
+
+/**
+ * Stores the token transfers found in a receipt, plus the transaction's own
+ * native value, keeping only movements with an agent instance on either side.
+ * Native value moved by internal calls is not visible without traces.
+ */
+export async function recordTransfers(
+  context: Context,
+  event: any,
+  logs: TransferLog[]
+) {
+  const chain = context.network.name;
+  const hash = event.transaction.hash;
+  const transfers = logs.flatMap((log) => decodeTokenTransfers(log));
+
+  const value = BigInt(event.transaction.value ?? 0);
+  if (value > 0n && event.transaction.to) {
+    transfers.push({
+      type: "NATIVE",
+      from: event.transaction.from.toLowerCase(),
+      to: event.transaction.to.toLowerCase(),
+      amount: value.toString(),
+    });
+  }
+
+  // ERC1155 batches produce several transfers for the same log
+  const seen = new Map<string, number>();
+
+  for (const transfer of transfers) {
+    if (transfer.type === "UNKNOWN" || !transfer.from || !transfer.to) {
+      continue;
+    }
+
+    const [fromIsAgent, toIsAgent] = await Promise.all([
+      isAgentInstance(context, chain, transfer.from),
+      isAgentInstance(context, chain, transfer.to),
+    ]);
+    if (!fromIsAgent && !toIsAgent) continue;
+
+    const baseId =
+      transfer.logIndex === undefined
+        ? `${chain}-${hash}-native`
+        : `${chain}-${hash}-${transfer.logIndex}`;
+    const occurrence = seen.get(baseId) ?? 0;
+    seen.set(baseId, occurrence + 1);
+
+    const amount = BigInt(transfer.amount ?? 0);
+
+    try {
+      const decimals =
+        transfer.type === "NATIVE"
+          ? NATIVE_DECIMALS
+          : (
+              await getTokenMetadata(
+                context,
+                transfer.token!,
+                transfer.type,
+                Number(event.block.number)
+              )
+            ).decimals;
+
+      await context.db
+        .insert(Transfer)
+        .values({
+          id: occurrence === 0 ? baseId : `${baseId}-${occurrence}`,
+          chain,
+          hash,
+          logIndex: transfer.logIndex ?? null,
+          type: transfer.type,
+          token: transfer.token ?? null,
+          tokenId: transfer.tokenId ? BigInt(transfer.tokenId) : null,
+          from: transfer.from,
+          to: transfer.to,
+          amount,
+          formattedAmount: formatTokenAmount(amount, decimals),
+          blockNumber: Number(event.block.number),
+          timestamp: Number(event.block.timestamp),
+        })
+        .onConflictDoNothing();
+    } catch (error) {
+      console.error(`[TRANSFER] Error inserting transfer for ${hash}:`, error);
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { Context } from "ponder:registry";
+import { UndecodedSignature } from "ponder:schema";
+
+type SignatureKind = (typeof UndecodedSignature.$inferSelect)["kind"];
+
+/**
+ * Counts an event topic0 or function selector that could not be decoded,
+ * neither from the contract's ABI nor from the signature database.
+ */
+export async function recordUndecodedSignature(
+  context: Context,
+  event: any,
+  kind: SignatureKind,
+  address: string | null | undefined,
+  data: string | undefined
+) {
+  const signature =
+    kind === "FUNCTION"
+      ? data?.slice(0, 10).toLowerCase()
+      : data?.toLowerCase();
+  if (!address || !signature || signature.length < 10) return;
+
+  const chain = context.network.name;
+  const contract = address.toLowerCase();
+  const blockNumber = Number(event.block.number);
+  const timestamp = Number(event.block.timestamp);
+  const id = `${chain}-${contract}-${signature}`;
+
+  try {
+    await context.db
+      .insert(UndecodedSignature)
+      .values({
+        id,
+        chain,
+        address: contract,
+        kind,
+        signature,
+        occurrences: 1,
+        firstSeenBlock: blockNumber,
+        firstSeenAt: timestamp,
+        lastSeenBlock: blockNumber,
+        lastSeenAt: timestamp,
+      })
+      .onConflictDoUpdate((row) => ({
+        occurrences: row.occurrences + 1,
+        // Transactions are processed concurrently, so blocks may arrive late
+        firstSeenBlock: Math.min(row.firstSeenBlock, blockNumber),
+        firstSeenAt: Math.min(row.firstSeenAt, timestamp),
+        lastSeenBlock: Math.max(row.lastSeenBlock, blockNumber),
+        lastSeenAt: Math.max(row.lastSeenAt, timestamp),
+      }));
+  } catch (error) {
+    console.error(`[DECODE] Error recording undecoded signature ${id}:`, error);
+  }
+}